@@ -0,0 +1,109 @@
+// cron形式のスケジュールの各フィールドの範囲（分 時 日 月 曜日）
+const FIELD_RANGES: [number, number][] = [[0, 59], [0, 23], [1, 31], [1, 12], [0, 7]];
+
+// よく使うスケジュールの別名
+const CRON_ALIASES: Record<string, string> = {
+	'@hourly': '0 * * * *',
+	'@daily': '0 0 * * *',
+	'@weekly': '0 0 * * 0',
+	'@monthly': '0 0 1 * *'
+};
+
+// 次回の実行時間を探す最大の期間
+const MAX_SEARCH_PERIOD = 5 * 366 * 24 * 60 * 60 * 1000;
+
+// cron形式（分 時 日 月 曜日）のスケジュール
+// 各フィールドは「*」、数値、範囲（1-5）、間隔（*/15、1-5/2）、カンマ区切りの組み合わせに対応する
+export class CronSchedule {
+	private minutes: Set<number>;
+	private hours: Set<number>;
+	private days: Set<number>;
+	private months: Set<number>;
+	private weekdays: Set<number>;
+	private anyDay: boolean; // 日が「*」かどうか
+	private anyWeekday: boolean; // 曜日が「*」かどうか
+
+	private constructor(fields: Set<number>[], anyDay: boolean, anyWeekday: boolean) {
+		[this.minutes, this.hours, this.days, this.months, this.weekdays] = fields;
+		this.anyDay = anyDay;
+		this.anyWeekday = anyWeekday;
+	}
+
+	// cron形式の文字列を解析するメソッド（正しくない場合はnull）
+	static parse(expression: string): CronSchedule | null {
+		const normalized = CRON_ALIASES[expression.trim().toLowerCase()] || expression.trim();
+		const parts = normalized.split(/\s+/);
+		if (parts.length !== 5) return null;
+
+		const fields: Set<number>[] = [];
+		for (let i = 0; i < parts.length; i++) {
+			const values = CronSchedule.parseField(parts[i], FIELD_RANGES[i][0], FIELD_RANGES[i][1]);
+			if (!values) return null;
+			fields.push(values);
+		}
+
+		// 曜日の7は日曜日（0）として扱う
+		if (fields[4].delete(7)) fields[4].add(0);
+
+		return new CronSchedule(fields, parts[2] === '*', parts[4] === '*');
+	}
+
+	// 1つのフィールドを解析するメソッド
+	private static parseField(field: string, min: number, max: number): Set<number> | null {
+		const values = new Set<number>();
+		for (const part of field.split(',')) {
+			const match = part.match(/^(\*|\d+(?:-\d+)?)(?:\/(\d+))?$/);
+			if (!match) return null;
+
+			let start = min;
+			let end = max;
+			if (match[1] !== '*') {
+				const [from, to] = match[1].split('-').map(Number);
+				start = from;
+				// 「5/10」のように間隔のみ指定した場合は最大値まで
+				end = to !== undefined ? to : (match[2] ? max : from);
+			}
+			const step = match[2] ? Number(match[2]) : 1;
+			if (start < min || end > max || start > end || step < 1) return null;
+
+			for (let value = start; value <= end; value += step) {
+				values.add(value);
+			}
+		}
+		return values;
+	}
+
+	// 指定した時間より後の次回の実行時間を取得するメソッド（見つからない場合はnull）
+	next(from: number): number | null {
+		const date = new Date(from);
+		date.setSeconds(0, 0);
+		date.setMinutes(date.getMinutes() + 1);
+
+		// 一致しない単位をまとめて進めながら、すべてのフィールドに一致する時間を探す
+		while (date.getTime() - from <= MAX_SEARCH_PERIOD) {
+			if (!this.months.has(date.getMonth() + 1)) {
+				date.setMonth(date.getMonth() + 1, 1);
+				date.setHours(0, 0, 0, 0);
+			} else if (!this.matchesDay(date)) {
+				date.setDate(date.getDate() + 1);
+				date.setHours(0, 0, 0, 0);
+			} else if (!this.hours.has(date.getHours())) {
+				date.setHours(date.getHours() + 1, 0, 0, 0);
+			} else if (!this.minutes.has(date.getMinutes())) {
+				date.setMinutes(date.getMinutes() + 1, 0, 0);
+			} else {
+				return date.getTime();
+			}
+		}
+		return null;
+	}
+
+	// 日と曜日が一致するかを判定するメソッド
+	// cronの仕様に合わせ、日と曜日の両方を指定した場合はどちらかに一致すればよい
+	private matchesDay(date: Date): boolean {
+		const dayMatches = this.days.has(date.getDate());
+		const weekdayMatches = this.weekdays.has(date.getDay());
+		if (this.anyDay || this.anyWeekday) return dayMatches && weekdayMatches;
+		return dayMatches || weekdayMatches;
+	}
+}
@@ -1,4 +1,5 @@
 import esbuild from "esbuild";
+import fs from "fs";
 import process from "process";
 import builtins from "builtin-modules";
 
@@ -11,6 +12,26 @@ if you want to view the source, please visit the github repository of this plugi
 
 const prod = (process.argv[2] === "production");
 
+// 端末内のOCRで使用するTesseractのワーカー・WASMのコア・言語データをプラグインのフォルダ（tesseract/）にコピーする
+// main.jsと一緒に配布し、実行時に外部からダウンロードしないようにする
+const tesseractAssets = {
+	"tesseract": ["node_modules/tesseract.js/dist/worker.min.js"],
+	"tesseract/core": [
+		"node_modules/tesseract.js-core/tesseract-core-lstm.wasm.js",
+		"node_modules/tesseract.js-core/tesseract-core-simd-lstm.wasm.js",
+	],
+	"tesseract/lang": [
+		"node_modules/@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz",
+		"node_modules/@tesseract.js-data/jpn/4.0.0_best_int/jpn.traineddata.gz",
+	],
+};
+for (const [dir, files] of Object.entries(tesseractAssets)) {
+	fs.mkdirSync(dir, { recursive: true });
+	for (const file of files) {
+		fs.copyFileSync(file, `${dir}/${file.substring(file.lastIndexOf("/") + 1)}`);
+	}
+}
+
 const context = await esbuild.context({
 	banner: {
 		js: banner,
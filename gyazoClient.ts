@@ -0,0 +1,285 @@
+import axios, { AxiosRequestConfig, AxiosResponse } from 'axios';
+
+export interface GyazoImage {
+	image_id: string;
+	permalink_url: string;
+	thumb_url: string;
+	url: string;
+	type: string;
+	created_at: string;
+	metadata?: {
+		app: string | null;
+		title: string | null;
+		url: string | null;
+		desc: string | null;
+	};
+	ocr?: {
+		locale: string;
+		description: string;
+	};
+}
+
+// Gyazoへのアップロード時に指定するメタデータ
+export interface GyazoUploadMetadata {
+	title: string;
+	desc: string;
+	app: string;
+	refererUrl: string;
+}
+
+// 画像一覧の1ページ分の取得結果
+export interface GyazoImageListPage {
+	images: GyazoImage[];
+	totalCount: number; // 画像の総数（不明な場合は0）
+}
+
+// 条件付きで取得した画像の詳細（変更がない場合はimageがnull）
+export interface GyazoConditionalImage {
+	image: GyazoImage | null;
+	etag: string | null;
+}
+
+// アクセストークンのユーザーの情報
+export interface GyazoUser {
+	uid: string;
+	name: string;
+	email: string;
+	profile_image: string;
+}
+
+
+// 画像削除の結果
+export interface GyazoDeleteResult {
+	image_id: string;
+	type: string;
+}
+
+// 画像が存在しない（404）場合のエラー
+export class GyazoNotFoundError extends Error {
+	imageId: string;
+
+	constructor(imageId: string) {
+		super(`Gyazo画像が見つかりません: ${imageId}`);
+		this.name = 'GyazoNotFoundError';
+		this.imageId = imageId;
+	}
+}
+
+// リクエストが中止された場合のエラー
+export class GyazoCancelledError extends Error {
+	constructor() {
+		super('Gyazo APIへのリクエストが中止されました');
+		this.name = 'GyazoCancelledError';
+	}
+}
+
+const API_BASE_URL = 'https://api.gyazo.com/api';
+const UPLOAD_URL = 'https://upload.gyazo.com/api/upload';
+const OAUTH_AUTHORIZE_URL = 'https://gyazo.com/oauth/authorize';
+const OAUTH_TOKEN_URL = 'https://gyazo.com/oauth/token';
+const REQUEST_TIMEOUT = 30 * 1000; // リクエストのタイムアウト
+const MAX_RETRIES = 4; // 一時的なエラーの最大再試行回数
+const BASE_BACKOFF = 1000; // 再試行の初回待機時間（以降は2倍ずつ増加）
+const MAX_BACKOFF = 60 * 1000; // 再試行の最大待機時間
+
+// リクエストの設定
+// idempotent=falseのリクエストは、サーバーが処理済みの可能性があるネットワークエラー・タイムアウト・5xxでは再試行しない
+type GyazoRequestConfig = Omit<AxiosRequestConfig, 'data'> & {data?: () => FormData, idempotent?: boolean};
+
+// Gyazo APIのクライアント
+// レート制限のヘッダーを守り、一時的なエラー（ネットワークエラー、タイムアウト、429、5xx）は指数バックオフで再試行する
+export class GyazoClient {
+	private getAccessToken: () => string;
+
+	constructor(getAccessToken: () => string) {
+		this.getAccessToken = getAccessToken;
+	}
+
+	// OAuthの認可画面のURLを取得するメソッド
+	getAuthorizeUrl(clientId: string, redirectUri: string, state: string): string {
+		const params = new URLSearchParams({
+			client_id: clientId,
+			redirect_uri: redirectUri,
+			response_type: 'code',
+			state
+		});
+		return `${OAUTH_AUTHORIZE_URL}?${params.toString()}`;
+	}
+
+	// OAuthの認可コードをアクセストークンに交換するメソッド
+	async exchangeAuthorizationCode(clientId: string, clientSecret: string, redirectUri: string, code: string): Promise<string> {
+		const response = await this.request<{access_token: string}>({
+			method: 'post',
+			url: OAUTH_TOKEN_URL,
+			data: () => {
+				const formData = new FormData();
+				formData.append('client_id', clientId);
+				formData.append('client_secret', clientSecret);
+				formData.append('redirect_uri', redirectUri);
+				formData.append('code', code);
+				formData.append('grant_type', 'authorization_code');
+				return formData;
+			},
+			// 認可コードは1回しか使用できない
+			idempotent: false
+		});
+		return response.data.access_token;
+	}
+
+	// アクセストークンのユーザーの情報を取得するメソッド
+	async getCurrentUser(signal?: AbortSignal): Promise<GyazoUser> {
+		const response = await this.request<{user: GyazoUser}>({
+			method: 'get',
+			url: `${API_BASE_URL}/users/me`
+		}, signal);
+		return response.data.user;
+	}
+
+	// 画像一覧を取得するメソッド
+	async listImages(page: number, perPage: number, signal?: AbortSignal): Promise<GyazoImageListPage> {
+		const response = await this.request<GyazoImage[]>({
+			method: 'get',
+			url: `${API_BASE_URL}/images`,
+			params: {page, per_page: perPage}
+		}, signal);
+
+		const totalCount = Number(response.headers['x-total-count']);
+		return {
+			images: response.data,
+			totalCount: totalCount > 0 ? totalCount : 0
+		};
+	}
+
+	// 画像の詳細を取得するメソッド（存在しない場合はGyazoNotFoundErrorを投げる）
+	async getImage(imageId: string, signal?: AbortSignal): Promise<GyazoImage> {
+		const response = await this.request<GyazoImage>({
+			method: 'get',
+			url: `${API_BASE_URL}/images/${imageId}`
+		}, signal, imageId);
+		return response.data;
+	}
+
+	// 前回取得時のETagを指定して画像の詳細を取得するメソッド
+	// 変更がない（304）場合はimageがnullになる。存在しない場合はGyazoNotFoundErrorを投げる
+	async getImageIfChanged(imageId: string, etag: string | null, signal?: AbortSignal): Promise<GyazoConditionalImage> {
+		const response = await this.request<GyazoImage>({
+			method: 'get',
+			url: `${API_BASE_URL}/images/${imageId}`,
+			headers: etag ? {'If-None-Match': etag} : undefined,
+			validateStatus: status => (status >= 200 && status < 300) || status === 304
+		}, signal, imageId);
+
+		const responseEtag = response.headers['etag'];
+		return {
+			image: response.status === 304 ? null : response.data,
+			etag: typeof responseEtag === 'string' ? responseEtag : etag
+		};
+	}
+
+	// 画像を削除するメソッド（存在しない場合はGyazoNotFoundErrorを投げる）
+	// 再試行の前の削除が成功していた場合もGyazoNotFoundErrorになるため、呼び出し側で削除済みとして扱う
+	async deleteImage(imageId: string, signal?: AbortSignal): Promise<GyazoDeleteResult> {
+		const response = await this.request<GyazoDeleteResult>({
+			method: 'delete',
+			url: `${API_BASE_URL}/images/${imageId}`
+		}, signal, imageId);
+		return response.data;
+	}
+
+
+	// 画像をアップロードするメソッド
+	async uploadImage(data: ArrayBuffer, fileName: string, metadata: Partial<GyazoUploadMetadata>, signal?: AbortSignal): Promise<GyazoImage> {
+		const response = await this.request<GyazoImage>({
+			method: 'post',
+			url: UPLOAD_URL,
+			data: () => {
+				// 再試行のたびに新しいフォームデータを作成
+				const formData = new FormData();
+				formData.append('access_token', this.getAccessToken());
+				formData.append('imagedata', new Blob([data]), fileName);
+				if (metadata.title) formData.append('title', metadata.title);
+				if (metadata.desc) formData.append('desc', metadata.desc);
+				if (metadata.app) formData.append('app', metadata.app);
+				if (metadata.refererUrl) formData.append('referer_url', metadata.refererUrl);
+				return formData;
+			},
+			// 再試行すると同じ画像が重複してアップロードされる可能性がある
+			idempotent: false
+		}, signal);
+		return response.data;
+	}
+
+	// リクエストを実行するメソッド
+	private async request<T>(config: GyazoRequestConfig, signal?: AbortSignal, imageId?: string): Promise<AxiosResponse<T>> {
+		const {idempotent = true, ...requestConfig} = config;
+
+		for (let attempt = 0; ; attempt++) {
+			if (signal?.aborted) throw new GyazoCancelledError();
+
+			try {
+				const response = await axios.request<T>({
+					...requestConfig,
+					data: requestConfig.data ? requestConfig.data() : undefined,
+					params: requestConfig.method === 'post' ? requestConfig.params : {...requestConfig.params, access_token: this.getAccessToken()},
+					timeout: REQUEST_TIMEOUT,
+					signal
+				});
+
+				// 残り回数が少ない場合はリセットまで待機
+				const remaining = Number(response.headers['x-ratelimit-remaining']);
+				if (!isNaN(remaining) && remaining <= 1) {
+					const waitMs = this.getRateLimitWait(response.headers['x-ratelimit-reset']);
+					console.log(`レート制限の上限に近いため${Math.round(waitMs / 1000)}秒待機します`);
+					await this.sleep(waitMs, signal);
+				}
+
+				return response;
+			} catch (error) {
+				if (signal?.aborted || axios.isCancel(error)) throw new GyazoCancelledError();
+				if (!axios.isAxiosError(error)) throw error;
+
+				const status = error.response?.status;
+				if (status === 404 && imageId) throw new GyazoNotFoundError(imageId);
+
+				// 一時的なエラーのみ再試行（冪等でないリクエストは処理されていないことが確実な429のみ）
+				const transient = status === 429 || (idempotent && (!error.response || (status !== undefined && status >= 500)));
+				if (!transient || attempt >= MAX_RETRIES) throw error;
+
+				let waitMs = Math.min(BASE_BACKOFF * Math.pow(2, attempt), MAX_BACKOFF);
+				if (status === 429) {
+					const retryAfter = Number(error.response?.headers['retry-after']);
+					waitMs = retryAfter > 0 ? retryAfter * 1000 : this.getRateLimitWait(error.response?.headers['x-ratelimit-reset']);
+				}
+
+				console.log(`Gyazo APIエラー (${status || error.code || error.message})、${Math.round(waitMs / 1000)}秒後に再試行します（${attempt + 1}/${MAX_RETRIES}）`);
+				await this.sleep(waitMs, signal);
+			}
+		}
+	}
+
+	// レート制限のリセットまでの待機時間を取得するメソッド（不明な場合は60秒）
+	private getRateLimitWait(resetHeader: unknown): number {
+		const resetAt = Number(resetHeader) * 1000;
+		return resetAt > Date.now() ? resetAt - Date.now() : MAX_BACKOFF;
+	}
+
+	// 中止可能な待機を行うメソッド
+	private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+		return new Promise((resolve, reject) => {
+			if (signal?.aborted) {
+				reject(new GyazoCancelledError());
+				return;
+			}
+
+			const onAbort = () => {
+				clearTimeout(timer);
+				reject(new GyazoCancelledError());
+			};
+			const timer = setTimeout(() => {
+				signal?.removeEventListener('abort', onAbort);
+				resolve();
+			}, ms);
+			signal?.addEventListener('abort', onAbort, {once: true});
+		});
+	}
+}
@@ -1,57 +1,463 @@
-import { App, Editor, MarkdownView, Modal, Notice, Plugin, PluginSettingTab, Setting, TFile, TFolder, Vault } from 'obsidian';
-import axios from 'axios';
-
-interface GyazoImage {
-	image_id: string;
-	permalink_url: string;
-	thumb_url: string;
-	url: string;
-	type: string;
-	created_at: string;
-	metadata?: {
-		app: string | null;
-		title: string | null;
-		url: string | null;
-		desc: string | null;
-	};
-	ocr?: {
-		locale: string;
-		description: string;
-	};
-}
+import { App, debounce, Editor, FuzzySuggestModal, ItemView, MarkdownView, Modal, moment, Notice, parseYaml, Platform, prepareFuzzySearch, Plugin, PluginSettingTab, requestUrl, setIcon, Setting, stringifyYaml, SuggestModal, TAbstractFile, TFile, TFolder, Vault, WorkspaceLeaf } from 'obsidian';
+import { GyazoCancelledError, GyazoClient, GyazoImage, GyazoNotFoundError, GyazoUploadMetadata, GyazoUser } from './gyazoClient';
+import { OcrIndex, OcrProvider, parseOcrLanguages, TESSERACT_ASSET_DIR, TESSERACT_CORE_DIR, TESSERACT_LANG_DIR, TESSERACT_WORKER_FILE, TesseractAssetPaths, TesseractOcrProvider } from './ocr';
+import { CronSchedule } from './cron';
 
 interface GyazoPluginSettings {
-	clientId: string;
-	saveDirectory: string;
-	lastFetchedId: string;
+	accounts: GyazoAccount[]; // Gyazoのアカウント（先頭がメインのアカウント）
+	oauthClientId: string; // OAuthでログインするためのGyazoアプリケーションのClient ID
+	oauthClientSecret: string; // OAuthでログインするためのGyazoアプリケーションのClient Secret（この端末にのみ保存する場合は空）
 	forceRefetch: boolean;
-	fetchInterval: number; // 定期取得間隔（時間単位、0=定期取得しない）
-	lastFetchTime: number; // 最後に取得した時間（タイムスタンプ）
 	detectDeletedImages: boolean; // Gyazoで削除された画像を検知するかどうか
-	deleteNotesForDeletedImages: boolean; // 削除された画像のノートも削除するかどうか
+	deletedImagePolicy: DeletedImagePolicy; // 削除された画像のノートの扱い
+	archiveDirectory: string; // 削除された画像のノートの移動先ディレクトリ
 	maxImagesToFetch: number; // 一度に取得する最新画像の最大枚数
+	downloadImages: boolean; // 画像をVault内にダウンロードするかどうか
+	downloadThumbnails: boolean; // サムネイルもダウンロードするかどうか
+	attachmentDirectory: string; // ダウンロードした画像の保存先ディレクトリ
+	videoPolicy: VideoPolicy; // 動画の扱い
+	videoDirectory: string; // 動画のノートの保存先ディレクトリ（空=画像と同じ保存ディレクトリ）
+	downloadVideos: boolean; // 動画をVault内にダウンロードするかどうか
+	uploadOnPaste: boolean; // エディタへの貼り付け・ドロップ時に画像をGyazoへアップロードするかどうか
+	fileNameTemplate: string; // ノートのファイル名のテンプレート
+	folderTemplate: string; // 保存ディレクトリ内のサブフォルダのテンプレート（空=保存ディレクトリ直下）
+	bodyTemplatePath: string; // ノート本文のテンプレートファイルのパス（空=標準のテンプレート）
+	routingRules: RoutingRule[]; // ノートの保存先とタグを決めるルール（上から順に評価し、最初に一致したルールを使用）
+	renderPermalinkCards: boolean; // ノート内のGyazoのパーマリンクをカードとして表示するかどうか
+	aggregationMode: AggregationMode; // 画像をまとめて一覧にするノートの単位
+	aggregateOnly: boolean; // 画像ごとのノートを作成せず、まとめノートのみに書き込むかどうか
+	aggregationDirectory: string; // まとめノートの保存先ディレクトリ
+	dailyNoteFolder: string; // デイリーノートの設定を取得できない場合のデイリーノートのフォルダ
+	dailyNoteFormat: string; // デイリーノートの設定を取得できない場合のデイリーノートの日付の形式
+	dryRunSync: boolean; // 同期の前に変更内容をプレビューして承認するかどうか
+	syncOnStartup: boolean; // Obsidianの起動時に同期するかどうか
+	pauseSyncInBackground: boolean; // モバイルでアプリがバックグラウンドにある間は定期取得を止めるかどうか
+	twoWaySync: boolean; // ノートで編集したタイトル・説明を同期で上書きせずに保持するかどうか
+	syncOnNoteEdit: boolean; // Gyazoノートのタイトル・説明を編集したときに同期するかどうか
+	ocrProvider: OcrProviderType; // GyazoのOCRテキストがない画像のOCRの方法
+	ocrLanguages: string; // 端末内のOCRで認識する言語（Tesseractの言語コードを+区切り）
 }
 
-const DEFAULT_SETTINGS: GyazoPluginSettings = {
-	clientId: '',
+// 動画の扱い
+// video=動画として埋め込む、thumbnail=サムネイルのみを埋め込む、skip=同期しない
+type VideoPolicy = 'video' | 'thumbnail' | 'skip';
+
+// GyazoのOCRテキストがない画像のOCRの方法
+// gyazo=GyazoのOCRのみ（届くまで再確認する）、tesseract=端末内のTesseractで補完する
+type OcrProviderType = 'gyazo' | 'tesseract';
+
+// Gyazoで削除された画像のノートの扱い
+// notify=通知のみ、mark=gyazo_status: deletedを付与、archive=付与してアーカイブディレクトリへ移動、
+// obsidian-trash=Obsidianのゴミ箱へ移動、system-trash=システムのゴミ箱へ移動、delete=完全に削除
+type DeletedImagePolicy = 'notify' | 'mark' | 'archive' | 'obsidian-trash' | 'system-trash' | 'delete';
+
+// Gyazoのアカウントごとの設定と同期の状態
+interface GyazoAccount {
+	id: string; // アカウントの識別子（ノートのgyazo_accountに記録する）
+	name: string; // アカウントの表示名
+	accessToken: string; // Gyazo APIのアクセストークン（この端末のローカルストレージに保存する場合は空）
+	storeTokenLocally: boolean; // アクセストークンを同期されるプラグインのデータではなく、この端末のローカルストレージに保存するかどうか
+	saveDirectory: string;
+	lastFetchedId: string;
+	lastFetchTime: number; // 最後に取得した時間（タイムスタンプ）
+	fetchIntervalMinutes: number; // 定期取得間隔（分単位、0=定期取得しない）
+	fetchCron: string; // 定期取得のスケジュール（cron形式、空=定期取得間隔を使用）
+	syncFilter: SyncFilter; // 同期する画像の絞り込み条件
+	ignoredImageIds: string[]; // 同期しない画像のID
+	backfillCursor: BackfillCursor | null; // ライブラリ全体のインポートの再開位置（null=インポート中でない）
+	pendingOcr: Record<string, number>; // OCRテキストがまだない画像のIDと最初に確認した時間（タイムスタンプ）
+}
+
+// 旧バージョンのアカウントの設定の形式（現在の設定への移行に使用）
+interface LegacyAccount extends Partial<GyazoAccount> {
+	fetchInterval?: number; // 定期取得間隔（時間単位）
+}
+
+// 旧バージョンの設定の形式（現在の設定への移行に使用）
+interface LegacySettings extends Partial<GyazoPluginSettings> {
+	clientId?: string; // 旧バージョンの「Gyazo Client ID」（実際にはアクセストークン）
+	accessToken?: string;
+	storeTokenLocally?: boolean;
+	saveDirectory?: string;
+	lastFetchedId?: string;
+	lastFetchTime?: number;
+	fetchInterval?: number; // 定期取得間隔（時間単位）
+	syncFilter?: SyncFilter;
+	ignoredImageIds?: string[];
+	backfillCursor?: BackfillCursor | null;
+	deleteNotesForDeletedImages?: boolean; // 削除された画像のノートも削除するかどうか
+}
+
+// 同期する画像の絞り込み条件（文字列の条件はカンマ区切り、空=絞り込まない）
+interface SyncFilter {
+	includeApps: string; // 同期するアプリ名
+	excludeApps: string; // 同期しないアプリ名
+	includeDomains: string; // 同期する参照元URLのドメイン
+	excludeDomains: string; // 同期しない参照元URLのドメイン
+	skipVideos: boolean; // 動画を同期しないかどうか
+	skipGifs: boolean; // GIFを同期しないかどうか
+	minDate: string; // 同期する最も古い撮影日（YYYY-MM-DD）
+	includeKeywords: string; // タイトルまたはOCRテキストに含まれる場合のみ同期するキーワード
+	excludeKeywords: string; // タイトルまたはOCRテキストに含まれる場合は同期しないキーワード
+}
+
+// ノートの保存先とタグを決めるルール
+interface RoutingRule {
+	field: RoutingRuleField; // 条件に使用する画像の情報
+	pattern: string; // 条件（app・typeは一致、domainはドメイン、title・ocrは正規表現、createdは「開始日..終了日」）
+	folder: string; // 保存先のフォルダ（テンプレート、空=通常の保存先）
+	tags: string; // 追加するタグ（カンマ区切り）
+}
+
+type RoutingRuleField = 'app' | 'domain' | 'title' | 'ocr' | 'type' | 'created';
+
+// 画像をまとめて一覧にするノートの単位
+// none=まとめない、day=撮影日ごと、app=アプリごと、daily-note=撮影日のデイリーノートに追記
+type AggregationMode = 'none' | 'day' | 'app' | 'daily-note';
+
+// 同期で実行する操作
+interface SyncPlanItem {
+	action: 'create' | 'update' | 'rename' | 'delete' | 'deleted' | 'aggregate' | 'conflict';
+	imageId: string;
+	path: string; // 作成・更新・削除するノートのパス（名前変更の場合は変更後のパス）
+	oldPath?: string; // 名前変更前のパス
+	image?: GyazoImage; // 作成・更新に使用する画像
+	localImage?: GyazoImage; // ノートで編集したタイトル・説明を反映した画像（競合の場合）
+	diff?: string; // 更新内容の差分
+	reason?: string; // 削除・削除された画像の処理の理由
+	approved: boolean; // 実行するかどうか
+}
+
+// ライブラリ全体のインポートの進捗
+interface BackfillCursor {
+	page: number; // 次に取得するページ
+	processedCount: number; // 処理済みの画像数
+	totalCount: number; // 画像の総数（不明な場合は0）
+}
+
+// キャッシュした画像の詳細
+interface DetailCacheEntry {
+	etag: string | null; // 取得時のETag
+	checkedAt: number; // 最後に確認した時間（タイムスタンプ）
+	image: GyazoImage;
+	mediaInfo?: MediaInfo; // 取得した動画・GIFのファイルの情報
+}
+
+// 同期済みのGyazoノートとその画像の情報
+interface SyncedGyazoImage {
+	file: TFile;
+	image: GyazoImage;
+	localPath: string | null; // ダウンロード済みの画像のパス
+	localThumbPath: string | null; // ダウンロード済みのサムネイルのパス
+}
+
+// カード表示用の画像の情報（ノートがない画像も表示する）
+interface GyazoCardImage {
+	image: GyazoImage;
+	localPath: string | null;
+	localThumbPath: string | null;
+}
+
+// コアプラグインのデイリーノートの設定
+interface DailyNotesOptions {
+	folder?: string;
+	format?: string;
+}
+
+// コアプラグインを参照できるApp（公開APIがないため内部のプロパティを参照する）
+interface AppWithInternalPlugins extends App {
+	internalPlugins?: {
+		getPluginById(id: string): {enabled?: boolean, instance?: {options?: DailyNotesOptions}} | null;
+	};
+}
+
+// Gyazoノートの一括操作
+type BulkAction = 'delete' | 'refresh' | 'rerender' | 'move' | 'export';
+
+// 一括操作の結果
+interface BulkActionResult {
+	successCount: number;
+	failures: {path: string, message: string}[];
+	cancelled: boolean;
+}
+
+// 動画・GIFのファイルの情報
+interface MediaInfo {
+	duration: number | null; // 再生時間（秒、動画のみ）
+	size: number | null; // ファイルサイズ（バイト）
+}
+
+// 同期の履歴
+interface SyncHistoryEntry {
+	timestamp: number;
+	accountId: string;
+	kind: 'sync' | 'import'; // sync=画像の取得、import=ライブラリ全体のインポート
+	created: number;
+	updated: number;
+	renamed: number;
+	deleted: number;
+	errors: {imageId: string | null, message: string}[]; // 画像ごとのエラー（画像に関係しないエラーはimageIdがnull）
+}
+
+// Vault内にダウンロードした画像の情報
+interface LocalAttachment {
+	path: string;
+	hash: string;
+	thumbPath: string | null;
+}
+
+const DEFAULT_ACCOUNT: GyazoAccount = {
+	id: 'default',
+	name: 'メイン',
+	accessToken: '',
+	storeTokenLocally: false,
 	saveDirectory: 'Gyazo',
 	lastFetchedId: '',
-	forceRefetch: false,
-	fetchInterval: 0, // 初期値は0（定期取得しない）
 	lastFetchTime: 0,
+	fetchIntervalMinutes: 0, // 初期値は0（定期取得しない）
+	fetchCron: '',
+	syncFilter: {
+		includeApps: '',
+		excludeApps: '',
+		includeDomains: '',
+		excludeDomains: '',
+		skipVideos: false,
+		skipGifs: false,
+		minDate: '',
+		includeKeywords: '',
+		excludeKeywords: ''
+	},
+	ignoredImageIds: [],
+	backfillCursor: null,
+	pendingOcr: {}
+};
+
+const DEFAULT_SETTINGS: GyazoPluginSettings = {
+	accounts: [DEFAULT_ACCOUNT],
+	oauthClientId: '',
+	oauthClientSecret: '',
+	forceRefetch: false,
 	detectDeletedImages: true, // 初期値はtrue（削除された画像を検知する）
-	deleteNotesForDeletedImages: false, // 初期値はfalse（確認なしでは削除しない）
-	maxImagesToFetch: 40 // 初期値は40枚（一度に取得する最大画像数）
+	deletedImagePolicy: 'notify', // 初期値は通知のみ（確認なしではノートに触れない）
+	archiveDirectory: 'Gyazo/Archive',
+	maxImagesToFetch: 40, // 初期値は40枚（一度に取得する最大画像数）
+	downloadImages: false, // 初期値はfalse（GyazoのURLを直接埋め込む）
+	downloadThumbnails: false,
+	attachmentDirectory: 'Gyazo/attachments',
+	videoPolicy: 'video', // 初期値は動画として埋め込む
+	videoDirectory: '',
+	downloadVideos: false, // 初期値はfalse（動画はファイルサイズが大きいためGyazoのURLを埋め込む）
+	uploadOnPaste: false, // 初期値はfalse（Obsidian標準の貼り付け処理を使用）
+	fileNameTemplate: 'Gyazo {{created:YYYY-MM-DD}}_{{created:HHmmss}}{{#app}} {{app}}{{/app}}{{#title}} {{title}}{{/title}}{{^app}}{{^title}} {{image_id}}{{/title}}{{/app}}',
+	folderTemplate: '',
+	bodyTemplatePath: '',
+	routingRules: [],
+	renderPermalinkCards: true,
+	aggregationMode: 'none',
+	aggregateOnly: false,
+	aggregationDirectory: 'Gyazo/Digest',
+	dailyNoteFolder: '',
+	dailyNoteFormat: 'YYYY-MM-DD',
+	dryRunSync: false, // 初期値はfalse（プレビューせずに同期する）
+	syncOnStartup: false,
+	pauseSyncInBackground: true,
+	twoWaySync: false, // 初期値はfalse（Gyazoの値でノートを上書きする）
+	syncOnNoteEdit: false,
+	ocrProvider: 'gyazo', // 初期値はGyazoのOCRのみ（端末内でOCRを実行しない）
+	ocrLanguages: 'jpn+eng'
 }
 
+// 同期で実行する操作の表示名
+const SYNC_ACTION_LABELS: Record<SyncPlanItem['action'], string> = {
+	create: '作成',
+	update: '更新',
+	rename: '名前変更',
+	delete: '削除',
+	deleted: 'Gyazoで削除された画像',
+	aggregate: 'まとめノートに追加',
+	conflict: '競合（ノートとGyazoの両方で編集）'
+};
+
+// OCRの方法の表示名
+const OCR_PROVIDER_LABELS: Record<OcrProviderType, string> = {
+	gyazo: 'GyazoのOCRのみ',
+	tesseract: '端末内のOCR（Tesseract）で補完'
+};
+
+// OCRテキストが届くまで再確認する期間
+const OCR_PENDING_MAX_AGE = 7 * 24 * 60 * 60 * 1000;
+
+// 一括操作の表示名
+const BULK_ACTION_LABELS: Record<BulkAction, string> = {
+	delete: 'Gyazoの画像を削除',
+	refresh: 'Gyazoから最新の情報を取得して更新',
+	rerender: '現在のテンプレートで本文を作り直す',
+	move: 'フォルダの移動・タグの追加',
+	export: 'CSVに書き出す'
+};
+
+// 一括操作の確認画面に表示するノートの最大数
+const BULK_PREVIEW_LIMIT = 20;
+
+// 動画として扱う画像の種類
+const VIDEO_TYPES = ['mp4', 'mov', 'webm'];
+
+// 動画の扱いの表示名
+const VIDEO_POLICY_LABELS: Record<VideoPolicy, string> = {
+	video: '動画として埋め込む',
+	thumbnail: 'サムネイルのみを埋め込む',
+	skip: '同期しない'
+};
+
+// 動画の再生時間を取得する際のタイムアウト
+const VIDEO_METADATA_TIMEOUT = 15 * 1000;
+
+// ルールの条件の表示名
+const ROUTING_RULE_FIELD_LABELS: Record<RoutingRuleField, string> = {
+	'app': 'アプリ名が一致',
+	'domain': '参照元URLのドメインが一致',
+	'title': 'タイトルが正規表現に一致',
+	'ocr': 'OCRテキストが正規表現に一致',
+	'type': '画像の種類が一致（png, gif, mp4など）',
+	'created': '撮影日が範囲内（YYYY-MM-DD..YYYY-MM-DD）'
+};
+
+// まとめノートの単位の表示名
+const AGGREGATION_MODE_LABELS: Record<AggregationMode, string> = {
+	'none': 'まとめない',
+	'day': '撮影日ごと',
+	'app': 'アプリごと',
+	'daily-note': 'デイリーノートに追記'
+};
+
+// まとめノートの項目に含めるOCRテキストの最大文字数
+const AGGREGATE_OCR_EXCERPT_LENGTH = 200;
+
+// 削除された画像のノートの扱いの表示名
+const DELETED_IMAGE_POLICY_LABELS: Record<DeletedImagePolicy, string> = {
+	'notify': '通知のみ',
+	'mark': 'gyazo_status: deletedを付与',
+	'archive': 'アーカイブディレクトリへ移動',
+	'obsidian-trash': 'Obsidianのゴミ箱へ移動',
+	'system-trash': 'システムのゴミ箱へ移動',
+	'delete': '完全に削除'
+};
+
+// OAuthのコールバックを受け取るObsidianのURIのアクション
+const OAUTH_CALLBACK_ACTION = 'gyazo-auth';
+const OAUTH_REDIRECT_URI = `obsidian://${OAUTH_CALLBACK_ACTION}`;
+
+// アクセストークンをローカルストレージに保存する場合のキー
+const ACCESS_TOKEN_STORAGE_KEY = 'gyazo-access-token';
+
+// Client Secretをローカルストレージに保存する場合のキー
+const CLIENT_SECRET_STORAGE_KEY = 'gyazo-client-secret';
+
+// Gyazoのパーマリンクの形式
+const GYAZO_PERMALINK_REGEX = /^https?:\/\/gyazo\.com\/([0-9a-f]{32})\/?$/;
+
+// Gyazoブラウザのビューの種類
+const VIEW_TYPE_GYAZO_BROWSER = 'gyazo-browser';
+
+// ライブラリ全体のインポートで1ページに取得する画像数（APIの上限）
+const BACKFILL_PER_PAGE = 100;
+
+// 定期取得の予定を確認する間隔
+// スリープからの復帰後も時刻で判定するため、予定を過ぎた取得は次の確認で実行される
+const SCHEDULE_CHECK_INTERVAL = 30 * 1000;
+
+// Gyazoノートの編集が止まってから同期するまでの時間
+const NOTE_EDIT_SYNC_DELAY = 60 * 1000;
+
+// 画像の詳細を同時に取得する最大数
+const DETAIL_CONCURRENCY = 4;
+
+// OCRテキストがまだない画像の詳細を再確認する間隔
+const DETAIL_RECHECK_INTERVAL = 6 * 60 * 60 * 1000;
+
+// 画像の詳細のキャッシュファイル名（プラグインのディレクトリに保存）
+const DETAIL_CACHE_FILE = 'detail-cache.json';
+
+// 同期の履歴の保存先（プラグインのディレクトリ内）と保存する最大件数
+const SYNC_HISTORY_FILE = 'sync-history.json';
+const MAX_SYNC_HISTORY = 100;
+
+// OCRテキストの索引の保存先（プラグインのディレクトリ内）
+const OCR_INDEX_FILE = 'ocr-index.json';
+
+// 登録されていないアカウントのIDがgyazo_accountに記録されたノートを操作しようとした場合のメッセージ
+const UNKNOWN_ACCOUNT_MESSAGE = 'このノートのgyazo_accountに記録されたアカウントが登録されていません。アカウントを登録し直すか、gyazo_accountを書き換えてください。';
+
+// プラグインが管理するフロントマターのキー（更新時に上書きされる）
+const PLUGIN_FRONTMATTER_KEYS = ['gyazo_id', 'gyazo_account', 'gyazo_status', 'gyazo_synced_hash', 'created_at', 'created', 'type', 'permalink_url', 'url', 'thumb_url', 'app', 'title', 'source_url', 'description', 'ocr_locale', 'duration', 'file_size', 'local_path', 'local_hash', 'local_thumb_path'];
+
+// ダウンロードを無効にした後も保持するフロントマターのキー
+const LOCAL_FRONTMATTER_KEYS = ['local_path', 'local_hash', 'local_thumb_path'];
+
+// 取得できなかった場合も既存の値を保持する動画・GIFのフロントマターのキー
+const MEDIA_FRONTMATTER_KEYS = ['duration', 'file_size'];
+
+// Gyazoノートに付与するカテゴリ
+const GYAZO_CATEGORY = '[[Gyazo Images]]';
+
+// プラグインが管理する本文のセクション（<!-- gyazo:name -->と<!-- /gyazo:name -->で囲まれた範囲）
+// マーカーのない既存ノートでは、見出しがない場合のみセクションを追記する
+const MANAGED_SECTIONS: Record<string, string> = {
+	desc: '## 説明',
+	ocr: '## OCRテキスト'
+};
+
+// ノート本文の標準テンプレート
+const DEFAULT_BODY_TEMPLATE = `# {{display_title}}
+
+{{embed}}
+
+[Gyazoで表示]({{permalink_url}})
+
+<!-- gyazo:desc -->
+{{#desc}}## 説明
+{{desc}}
+{{/desc}}<!-- /gyazo:desc -->
+
+<!-- gyazo:ocr -->
+{{#ocr}}## OCRテキスト
+{{ocr}}
+{{/ocr}}<!-- /gyazo:ocr -->
+`;
+
+// 設定画面のテンプレートプレビューに使用するサンプル画像
+const SAMPLE_GYAZO_IMAGE: GyazoImage = {
+	image_id: '8980c52421e452ac3355ca3e5cfe7a0c',
+	permalink_url: 'https://gyazo.com/8980c52421e452ac3355ca3e5cfe7a0c',
+	thumb_url: 'https://thumb.gyazo.com/thumb/200/sample.png',
+	url: 'https://i.gyazo.com/8980c52421e452ac3355ca3e5cfe7a0c.png',
+	type: 'png',
+	created_at: '2024-01-15T10:30:45+09:00',
+	metadata: {
+		app: 'Google Chrome',
+		title: 'Gyazo API Documentation',
+		url: 'https://gyazo.com/api/docs',
+		desc: 'APIドキュメントのスクリーンショット'
+	},
+	ocr: {
+		locale: 'ja',
+		description: 'Gyazo API\nImage API'
+	}
+};
+// アップロード対象とする画像ファイルの拡張子
+const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'gif', 'webp', 'bmp'];
+
 // Gyazo画像削除確認用のModalクラス
 class DeleteGyazoImageModal extends Modal {
-	private imageId: string;
-	private onConfirm: (deleteNote: boolean) => void;
+	private imageIds: string[];
+	private localPaths: string[];
+	private deleteLocalFiles = true;
+	private onConfirm: (deleteNote: boolean, deleteLocalFiles: boolean) => void;
 
-	constructor(app: App, imageId: string, onConfirm: (deleteNote: boolean) => void) {
+	constructor(app: App, imageIds: string[], localPaths: string[], onConfirm: (deleteNote: boolean, deleteLocalFiles: boolean) => void) {
 		super(app);
-		this.imageId = imageId;
+		this.imageIds = imageIds;
+		this.localPaths = localPaths;
 		this.onConfirm = onConfirm;
 	}
 
@@ -60,9 +466,22 @@ class DeleteGyazoImageModal extends Modal {
 		contentEl.empty();
 
 		contentEl.createEl('h2', {text: 'Gyazo画像の削除'});
-		contentEl.createEl('p', {text: `Gyazo画像(${this.imageId})を削除します。この操作は元に戻せません。`});
+		const target = this.imageIds.length === 1 ? `Gyazo画像(${this.imageIds[0]})` : `${this.imageIds.length}件のGyazo画像`;
+		contentEl.createEl('p', {text: `${target}を削除します。この操作は元に戻せません。`});
 		contentEl.createEl('p', {text: 'ノートも一緒に削除しますか？'});
 
+		// Vault内にダウンロード済みの画像がある場合は削除するかを選択できるようにする
+		if (this.localPaths.length > 0) {
+			new Setting(contentEl)
+				.setName('ダウンロード済みの画像も削除する')
+				.setDesc(this.localPaths.length <= 3 ? this.localPaths.join(', ') : `${this.localPaths.length}件のファイル`)
+				.addToggle(toggle => toggle
+					.setValue(this.deleteLocalFiles)
+					.onChange(value => {
+						this.deleteLocalFiles = value;
+					}));
+		}
+
 		const buttonContainer = contentEl.createDiv();
 		buttonContainer.addClass('gyazo-delete-buttons');
 		buttonContainer.style.display = 'flex';
@@ -79,14 +498,14 @@ class DeleteGyazoImageModal extends Modal {
 		deleteImageOnlyButton.style.marginRight = '10px';
 		deleteImageOnlyButton.addEventListener('click', () => {
 			this.close();
-			this.onConfirm(false);
+			this.onConfirm(false, this.deleteLocalFiles);
 		});
 
 		const deleteAllButton = buttonContainer.createEl('button', {text: '画像とノートを削除'});
 		deleteAllButton.addClass('mod-warning');
 		deleteAllButton.addEventListener('click', () => {
 			this.close();
-			this.onConfirm(true);
+			this.onConfirm(true, this.deleteLocalFiles);
 		});
 	}
 
@@ -96,688 +515,4584 @@ class DeleteGyazoImageModal extends Modal {
 	}
 }
 
-export default class GyazoPlugin extends Plugin {
-	settings: GyazoPluginSettings;
-	fetchTimer: NodeJS.Timeout | null = null; // 定期取得用のタイマー
+// Gyazoへアップロードする画像のメタデータ入力用のModalクラス
+class UploadGyazoImageModal extends Modal {
+	private metadata: GyazoUploadMetadata;
+	private onSubmit: (metadata: GyazoUploadMetadata) => void;
 
-	async onload() {
-		await this.loadSettings();
+	constructor(app: App, defaults: Partial<GyazoUploadMetadata>, onSubmit: (metadata: GyazoUploadMetadata) => void) {
+		super(app);
+		this.metadata = Object.assign({title: '', desc: '', app: 'Obsidian', refererUrl: ''}, defaults);
+		this.onSubmit = onSubmit;
+	}
 
-		// リボンアイコンを追加
-		const ribbonIconEl = this.addRibbonIcon('image', 'Gyazo画像取得', (evt: MouseEvent) => {
-			this.fetchGyazoImages();
-		});
-		ribbonIconEl.addClass('gyazo-plugin-ribbon-class');
+	onOpen() {
+		const {contentEl} = this;
+		contentEl.empty();
 
-		// コマンドを追加
-		this.addCommand({
-			id: 'fetch-gyazo-images',
-			name: 'Gyazo画像を取得',
-			callback: () => {
-				this.fetchGyazoImages();
-			}
-		});
+		contentEl.createEl('h2', {text: 'Gyazoへアップロード'});
 
-		// Gyazo画像削除コマンドを追加
-		this.addCommand({
-			id: 'delete-gyazo-image',
-			name: '現在のノートのGyazo画像を削除',
-			checkCallback: (checking) => {
-				// 現在開いているノートを取得
-				const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
-				if (activeView) {
-					if (!checking) {
-						this.deleteCurrentGyazoImage(activeView);
-					}
-					return true;
-				}
-				return false;
-			}
-		});
+		new Setting(contentEl)
+			.setName('タイトル')
+			.addText(text => text
+				.setValue(this.metadata.title)
+				.onChange(value => {
+					this.metadata.title = value;
+				}));
 
-		// 設定タブを追加
-		this.addSettingTab(new GyazoSettingTab(this.app, this));
+		new Setting(contentEl)
+			.setName('説明')
+			.addTextArea(text => text
+				.setValue(this.metadata.desc)
+				.onChange(value => {
+					this.metadata.desc = value;
+				}));
 
-		// 定期取得のタイマーを設定
-		this.setupFetchTimer();
+		new Setting(contentEl)
+			.setName('アプリ名')
+			.addText(text => text
+				.setValue(this.metadata.app)
+				.onChange(value => {
+					this.metadata.app = value;
+				}));
+
+		new Setting(contentEl)
+			.setName('参照元URL')
+			.addText(text => text
+				.setPlaceholder('https://')
+				.setValue(this.metadata.refererUrl)
+				.onChange(value => {
+					this.metadata.refererUrl = value;
+				}));
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('キャンセル')
+				.onClick(() => {
+					this.close();
+				}))
+			.addButton(button => button
+				.setButtonText('アップロード')
+				.setCta()
+				.onClick(() => {
+					this.close();
+					this.onSubmit(this.metadata);
+				}));
 	}
 
-	// 現在開いているノートのGyazo画像を削除するメソッド
-	async deleteCurrentGyazoImage(view: MarkdownView) {
-		const file = view.file;
-		if (!file) {
-			new Notice('ノートが開かれていません');
-			return;
-		}
-		
-		try {
-			const content = await this.app.vault.read(file);
-			
-			// Gyazoノートかどうかを確認
-			if (content.includes('gyazo_id:')) {
-				// gyazo_idを抽出
-				const match = content.match(/gyazo_id: ([a-zA-Z0-9]+)/);
-				if (match && match[1]) {
-					const imageId = match[1];
-					
-					// 確認ダイアログを表示
-					const modal = new DeleteGyazoImageModal(this.app, imageId, async (deleteNote) => {
-						try {
-							// Gyazo APIで画像を削除
-							const success = await this.deleteGyazoImage(imageId);
-							
-							if (success) {
-								new Notice(`Gyazo画像 ${imageId} を削除しました`);
-								
-								// ノートも削除する場合
-								if (deleteNote) {
-									await this.app.vault.delete(file);
-									new Notice('ノートを削除しました');
-								}
-							}
-						} catch (error) {
-							console.error('画像削除エラー:', error);
-							new Notice('画像の削除に失敗しました');
-						}
-					});
-					
-					modal.open();
-				} else {
-					new Notice('Gyazo IDが見つかりません');
-				}
-			} else {
-				new Notice('このノートはGyazoノートではありません');
-			}
-		} catch (error) {
-			console.error('ノート読み込みエラー:', error);
-			new Notice('ノートの読み込みに失敗しました');
-		}
+	onClose() {
+		const {contentEl} = this;
+		contentEl.empty();
 	}
-	
-	// Gyazo APIで画像を削除するメソッド
-	async deleteGyazoImage(imageId: string): Promise<boolean> {
-		try {
-			// Gyazo APIを呼び出して画像を削除
-			// client_idパラメータを使用して認証
-			const response = await axios.delete(`https://api.gyazo.com/api/images/${imageId}`, {
-				params: {
-					access_token: this.settings.clientId
-				}
-			});
-			
-			// ステータスコードとレスポンスデータの両方を確認
-			if (response.status === 200 && response.data && response.data.image_id === imageId) {
-				console.log(`画像削除成功: ${imageId}、タイプ: ${response.data.type}`);
-				return true;
-			} else {
-				console.warn('画像削除レスポンスが不正:', response.data);
-				return false;
-			}
-		} catch (error) {
-			console.error('Gyazo API削除エラー:', error);
-			return false;
-		}
+}
+
+// Vault内の画像ファイル選択用のModalクラス
+class VaultImageSuggestModal extends FuzzySuggestModal<TFile> {
+	private onChoose: (file: TFile) => void;
+
+	constructor(app: App, onChoose: (file: TFile) => void) {
+		super(app);
+		this.onChoose = onChoose;
+		this.setPlaceholder('アップロードする画像を選択');
 	}
 
-	onunload() {
-		// プラグインがアンロードされたときの処理
-		// タイマーをクリア
-		this.clearFetchTimer();
+	getItems(): TFile[] {
+		return this.app.vault.getFiles().filter(file => IMAGE_EXTENSIONS.includes(file.extension.toLowerCase()));
 	}
 
-	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+	getItemText(file: TFile): string {
+		return file.path;
 	}
 
-	async saveSettings() {
-		await this.saveData(this.settings);
+	onChooseItem(file: TFile, evt: MouseEvent | KeyboardEvent) {
+		this.onChoose(file);
 	}
+}
 
-	// 定期取得のタイマーを設定するメソッド
-	setupFetchTimer() {
-		// 既存のタイマーをクリア
-		this.clearFetchTimer();
+// ライブラリ全体のインポートの進捗表示用のModalクラス
+class BackfillProgressModal extends Modal {
+	paused = false;
+	cancelled = false;
+	abortController = new AbortController();
+	private statusEl: HTMLElement;
+	private progressEl: HTMLProgressElement;
+	private pauseButton: HTMLButtonElement;
 
-		// 定期取得が無効な場合は何もしない
-		if (this.settings.fetchInterval <= 0) {
-			console.log('定期取得は無効です');
-			return;
-		}
+	constructor(app: App) {
+		super(app);
+	}
 
-		// 次回の取得時間を計算
-		const now = Date.now();
-		const lastFetch = this.settings.lastFetchTime || 0;
-		const interval = this.settings.fetchInterval * 60 * 60 * 1000; // 時間をミリ秒に変換
+	onOpen() {
+		const {contentEl} = this;
+		contentEl.empty();
 
-		// 次回の取得までの時間を計算
-		let nextFetch = lastFetch + interval;
-		if (nextFetch < now) {
-			// 既に時間が過ぎている場合は、次の間隔の開始時間を設定
-			nextFetch = now + interval;
-		}
+		contentEl.createEl('h2', {text: 'Gyazoライブラリのインポート'});
+		this.statusEl = contentEl.createEl('p', {text: '準備中...'});
+		this.progressEl = contentEl.createEl('progress');
+		this.progressEl.style.width = '100%';
+		contentEl.createEl('p', {text: 'このダイアログを閉じてもインポートはバックグラウンドで続行されます。'});
 
-		const timeToNextFetch = nextFetch - now;
-		console.log(`定期取得: ${this.settings.fetchInterval}時間ごと、次回の取得まで ${Math.round(timeToNextFetch / (60 * 1000))} 分`);
+		const buttonContainer = contentEl.createDiv();
+		buttonContainer.style.display = 'flex';
+		buttonContainer.style.justifyContent = 'flex-end';
+		buttonContainer.style.marginTop = '20px';
+
+		this.pauseButton = buttonContainer.createEl('button', {text: this.paused ? '再開' : '一時停止'});
+		this.pauseButton.style.marginRight = '10px';
+		this.pauseButton.addEventListener('click', () => {
+			this.paused = !this.paused;
+			this.pauseButton.setText(this.paused ? '再開' : '一時停止');
+		});
 
-		// タイマーを設定
-		this.fetchTimer = setTimeout(() => {
-			this.executeFetchTimer();
-		}, timeToNextFetch);
+		const cancelButton = buttonContainer.createEl('button', {text: '中止'});
+		cancelButton.addClass('mod-warning');
+		cancelButton.addEventListener('click', () => {
+			this.cancelled = true;
+			this.abortController.abort();
+			this.close();
+		});
 	}
 
-	// 定期取得のタイマーをクリアするメソッド
-	clearFetchTimer() {
-		if (this.fetchTimer) {
-			clearTimeout(this.fetchTimer);
-			this.fetchTimer = null;
+	// 進捗を更新するメソッド
+	setProgress(processedCount: number, totalCount: number, message: string) {
+		if (!this.statusEl) return;
+		this.statusEl.setText(message);
+		if (totalCount > 0) {
+			this.progressEl.max = totalCount;
+			this.progressEl.value = processedCount;
+		} else {
+			this.progressEl.removeAttribute('value');
 		}
 	}
 
-	// 定期取得を実行するメソッド
-	async executeFetchTimer() {
-		console.log('定期取得を実行します');
-		
-		// 画像取得を実行
-		await this.fetchGyazoImages();
-		
-		// 最後の取得時間を更新
-		this.settings.lastFetchTime = Date.now();
-		await this.saveSettings();
-		
-		// 次回のタイマーを設定
-		this.setupFetchTimer();
+	onClose() {
+		const {contentEl} = this;
+		contentEl.empty();
 	}
+}
 
-	async fetchGyazoImages() {
-		if (!this.settings.clientId) {
-			new Notice('Gyazo Client IDが設定されていません。設定画面で入力してください。');
-			return;
-		}
+// 同期のプレビューと承認用のModalクラス
+class SyncPlanModal extends Modal {
+	private plan: SyncPlanItem[];
+	private onApply: (approved: SyncPlanItem[]) => void;
+	private title: string;
 
-		try {
-			// 複数ページの画像を取得するための配列
-			let allImages: GyazoImage[] = [];
-			let currentPage = 1;
-			const perPage = 20;
-			let hasMorePages = true;
+	constructor(app: App, plan: SyncPlanItem[], onApply: (approved: SyncPlanItem[]) => void, title = 'Gyazo同期のプレビュー') {
+		super(app);
+		this.plan = plan;
+		this.onApply = onApply;
+		this.title = title;
+	}
 
-			// 設定された最大画像数から必要なページ数を計算
-			const maxImagesToFetch = this.settings.maxImagesToFetch;
-			const maxPages = Math.ceil(maxImagesToFetch / perPage);
-			console.log(`最大${maxImagesToFetch}枚の画像を取得します（最大${maxPages}ページ）`);
+	onOpen() {
+		const {contentEl} = this;
+		contentEl.empty();
 
+		contentEl.createEl('h2', {text: this.title});
 
-			while (hasMorePages && currentPage <= maxPages) {
-				console.log(`Gyazo画像取得中: ページ ${currentPage}`);
-				
-				// Gyazo APIから画像リストを取得
-				const response = await axios.get('https://api.gyazo.com/api/images', {
-					params: {
-						access_token: this.settings.clientId,
-						page: currentPage,
-						per_page: perPage
-					}
-				});
+		if (this.plan.length === 0) {
+			contentEl.createEl('p', {text: '変更はありません。'});
+		} else {
+			contentEl.createEl('p', {text: 'チェックを外した項目は実行されません。'});
+		}
 
-				if (response.status !== 200) {
-					new Notice(`Gyazo APIエラー: ${response.status}`);
-					return;
-				}
+		const listEl = contentEl.createDiv();
+		listEl.addClass('gyazo-sync-plan');
+		const checkboxes: HTMLInputElement[] = [];
 
-				const pageImages = response.data as GyazoImage[];
-				
-				// 取得した画像を全体の配列に追加
-				allImages = [...allImages, ...pageImages];
+		for (const action of ['conflict', 'create', 'update', 'aggregate', 'rename', 'delete', 'deleted'] as SyncPlanItem['action'][]) {
+			const items = this.plan.filter(item => item.action === action);
+			if (items.length === 0) continue;
 
-				// 次のページがあるかどうかを判断
-				if (pageImages.length < perPage) {
-					hasMorePages = false;
-				} else {
-					currentPage++;
-				}
+			listEl.createEl('h3', {text: `${SYNC_ACTION_LABELS[action]}（${items.length}件）`});
 
-				// 最後に取得したIDと同じIDの画像が見つかった場合、それ以降は取得済みなのでループを終了
-				if (this.settings.lastFetchedId && !this.settings.forceRefetch) {
-					const foundLastFetchedImage = pageImages.some(img => img.image_id === this.settings.lastFetchedId);
-					if (foundLastFetchedImage) {
-						console.log(`最後に取得した画像ID ${this.settings.lastFetchedId} が見つかりました。ページネーションを終了します。`);
-						hasMorePages = false;
+			for (const item of items) {
+				const itemEl = listEl.createDiv();
+				itemEl.addClass('gyazo-sync-plan-item');
+
+				const labelEl = itemEl.createEl('label');
+				const checkbox = labelEl.createEl('input', {type: 'checkbox'});
+				checkbox.checked = item.approved;
+				checkbox.addEventListener('change', () => {
+					item.approved = checkbox.checked;
+				});
+				checkboxes.push(checkbox);
+
+				let text = item.oldPath ? ` ${item.oldPath} → ${item.path}` : ` ${item.path}`;
+				if (item.reason) text += `（${item.reason}）`;
+				labelEl.appendText(text);
+
+				// 更新内容の差分を表示
+				if (item.diff) {
+					const detailsEl = itemEl.createEl('details');
+					detailsEl.createEl('summary', {text: '差分'});
+					const diffEl = detailsEl.createEl('pre');
+					diffEl.addClass('gyazo-sync-plan-diff');
+					for (const line of item.diff.split('\n')) {
+						const lineEl = diffEl.createDiv({text: line});
+						if (line.startsWith('+')) lineEl.addClass('gyazo-diff-added');
+						if (line.startsWith('-')) lineEl.addClass('gyazo-diff-removed');
 					}
 				}
 			}
+		}
 
-			const images = allImages;
-			if (images.length === 0) {
-				new Notice('Gyazoに画像がありません。');
-				return;
-			}
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('すべて選択')
+				.onClick(() => {
+					this.setAllApproved(checkboxes, true);
+				}))
+			.addButton(button => button
+				.setButtonText('すべて解除')
+				.onClick(() => {
+					this.setAllApproved(checkboxes, false);
+				}))
+			.addButton(button => button
+				.setButtonText('キャンセル')
+				.onClick(() => {
+					this.close();
+				}))
+			.addButton(button => button
+				.setButtonText('実行')
+				.setCta()
+				.onClick(() => {
+					this.close();
+					this.onApply(this.plan.filter(item => item.approved));
+				}));
+	}
 
-			// デバッグ情報を出力
-			console.log('取得した画像リスト:', images);
+	// すべての項目の承認状態を変更するメソッド
+	private setAllApproved(checkboxes: HTMLInputElement[], approved: boolean) {
+		this.plan.forEach(item => item.approved = approved);
+		checkboxes.forEach(checkbox => checkbox.checked = approved);
+	}
 
-			// 保存ディレクトリの確認と作成
-			const saveFolder = await this.ensureSaveDirectory();
+	onClose() {
+		const {contentEl} = this;
+		contentEl.empty();
+	}
+}
 
-			// 強制再取得オプションが有効な場合、既存のノートを削除する
-			if (this.settings.forceRefetch) {
-				new Notice('強制再取得モード: 既存のノートを削除します...');
-				
-				// 保存ディレクトリ内のファイルを取得
-				const files = this.app.vault.getMarkdownFiles().filter(file => {
-					return file.path.startsWith(this.settings.saveDirectory + '/');
-				});
+// ノートとGyazoの両方でタイトル・説明が編集された場合に、どちらの値を使うかを選択するモーダル
+class MetadataConflictModal extends Modal {
+	private item: SyncPlanItem;
+	private onChoose: (choice: 'local' | 'remote' | null) => void;
+	private chosen = false;
 
-				// Gyazoノートを削除
-				let deletedCount = 0;
-				for (const file of files) {
-					try {
-						// ファイルの内容を取得してGyazoノートか確認
-						const content = await this.app.vault.read(file);
-						if (content.includes('gyazo_id:')) {
-							await this.app.vault.delete(file);
-							deletedCount++;
-						}
-					} catch (error) {
-						console.error(`ファイル削除エラー: ${file.path}`, error);
-					}
-				}
+	constructor(app: App, item: SyncPlanItem, onChoose: (choice: 'local' | 'remote' | null) => void) {
+		super(app);
+		this.item = item;
+		this.onChoose = onChoose;
+	}
 
-				new Notice(`${deletedCount}件のノートを削除しました。新しく取得します...`);
-				
-				// 最後に取得したIDをリセット
-				this.settings.lastFetchedId = '';
-				await this.saveSettings();
-			}
+	onOpen() {
+		const {contentEl} = this;
+		contentEl.empty();
 
-			// 画像ごとにノートを作成
-			let createdCount = 0;
-			let updatedCount = 0;
+		contentEl.createEl('h2', {text: 'タイトル・説明の競合'});
+		contentEl.createEl('p', {text: `${this.item.path} のタイトル・説明が、前回の同期以降にノートとGyazoの両方で編集されています。どちらの値を使うか選択してください。`});
 
-			for (const image of images) {
-				// 画像IDが存在するか確認
-				if (!image.image_id) {
-					console.error('画像IDが存在しません:', image);
-					continue;
-				}
+		const tableEl = contentEl.createEl('table');
+		tableEl.addClass('gyazo-conflict-table');
+		const headerEl = tableEl.createEl('tr');
+		headerEl.createEl('th');
+		headerEl.createEl('th', {text: 'ノート'});
+		headerEl.createEl('th', {text: 'Gyazo'});
+		for (const [label, key] of [['タイトル', 'title'], ['説明', 'desc']] as const) {
+			const rowEl = tableEl.createEl('tr');
+			rowEl.createEl('th', {text: label});
+			rowEl.createEl('td', {text: this.item.localImage?.metadata?.[key] || ''});
+			rowEl.createEl('td', {text: this.item.image?.metadata?.[key] || ''});
+		}
 
-				console.log('処理中の画像ID:', image.image_id);
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('スキップ')
+				.onClick(() => {
+					this.close();
+				}))
+			.addButton(button => button
+				.setButtonText('Gyazoの値をノートに反映')
+				.onClick(() => {
+					this.choose('remote');
+				}))
+			.addButton(button => button
+				.setButtonText('ノートの値を保持')
+				.setCta()
+				.onClick(() => {
+					this.choose('local');
+				}));
+	}
 
-				// 最後に取得したIDと同じなら、それ以降は処理しない
-				if (this.settings.lastFetchedId && image.image_id === this.settings.lastFetchedId) {
-					break;
-				}
+	// 選択した値を通知してモーダルを閉じるメソッド
+	private choose(choice: 'local' | 'remote') {
+		this.chosen = true;
+		this.onChoose(choice);
+		this.close();
+	}
 
-				// 画像の詳細情報を取得
-				const imageDetail = await this.fetchImageDetail(image.image_id);
-				if (!imageDetail) {
-					console.error(`画像詳細の取得に失敗: ${image.image_id}`);
-					continue;
-				}
+	onClose() {
+		this.contentEl.empty();
+		// 選択せずに閉じた場合はスキップ
+		if (!this.chosen) this.onChoose(null);
+	}
+}
 
-				// ノートを作成または更新
-				const result = await this.createOrUpdateNote(imageDetail);
-				if (result === 'created') createdCount++;
-				if (result === 'updated') updatedCount++;
-			}
+// 同期済みのGyazo画像を一覧表示するサイドパネルのビュー
+class GyazoBrowserView extends ItemView {
+	private plugin: GyazoPlugin;
+	private images: SyncedGyazoImage[] = [];
+	private query = '';
+	private appFilter = '';
+	private dateFrom = '';
+	private dateTo = '';
+	private appSelectEl: HTMLSelectElement;
+	private gridEl: HTMLElement;
+	private requestRefresh = debounce(() => this.refresh(), 1000, true);
 
-			// 最後に取得したIDと時間を保存
-			if (images.length > 0 && images[0].image_id) {
-				this.settings.lastFetchedId = images[0].image_id;
-				this.settings.lastFetchTime = Date.now();
-				await this.saveSettings();
-			}
+	constructor(leaf: WorkspaceLeaf, plugin: GyazoPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
 
-			// 削除された画像の検知と処理
-			if (this.settings.detectDeletedImages) {
-				await this.checkForDeletedImages(images);
-			}
+	getViewType(): string {
+		return VIEW_TYPE_GYAZO_BROWSER;
+	}
 
-			new Notice(`Gyazo画像処理完了: ${createdCount}件作成, ${updatedCount}件更新`);
+	getDisplayText(): string {
+		return 'Gyazoブラウザ';
+	}
 
-		} catch (error) {
-			console.error('Gyazo API error:', error);
-			new Notice(`Gyazo APIエラー: ${error.message || error}`);
-		}
+	getIcon(): string {
+		return 'image';
 	}
 
-	// 削除された画像を検知して処理するメソッド
-	async checkForDeletedImages(currentImages: GyazoImage[]) {
-		try {
-			// 現在のGyazo画像IDリストを作成
-			const currentImageIds = new Set<string>();
-			for (const image of currentImages) {
-				if (image.image_id) {
-					currentImageIds.add(image.image_id);
-				}
-			}
+	async onOpen() {
+		const container = this.contentEl;
+		container.empty();
+		container.addClass('gyazo-browser');
 
-			console.log(`現在のGyazo画像数: ${currentImageIds.size}枚`);
+		// 検索・絞り込み
+		const filterEl = container.createDiv('gyazo-browser-filters');
 
-			// 保存ディレクトリ内のファイルを取得
-			const files = this.app.vault.getMarkdownFiles().filter(file => {
-				return file.path.startsWith(this.settings.saveDirectory + '/');
-			});
+		const searchEl = filterEl.createEl('input', {type: 'search', placeholder: 'タイトル・アプリ・URL・OCRテキストで検索'});
+		searchEl.addEventListener('input', () => {
+			this.query = searchEl.value;
+			this.renderGrid();
+		});
 
-			console.log(`Gyazoノート数: ${files.length}件`);
+		this.appSelectEl = filterEl.createEl('select');
+		this.appSelectEl.addClass('dropdown');
+		this.appSelectEl.addEventListener('change', () => {
+			this.appFilter = this.appSelectEl.value;
+			this.renderGrid();
+		});
 
-			// 各ノートのGyazo IDを取得し、現在の画像リストに存在しない場合は削除されたと判断
-			let deletedCount = 0;
-			let potentiallyDeletedImages: {imageId: string, filePath: string}[] = [];
+		const dateEl = filterEl.createDiv('gyazo-browser-dates');
+		const fromEl = dateEl.createEl('input', {type: 'date'});
+		fromEl.addEventListener('change', () => {
+			this.dateFrom = fromEl.value;
+			this.renderGrid();
+		});
+		dateEl.createSpan({text: '〜'});
+		const toEl = dateEl.createEl('input', {type: 'date'});
+		toEl.addEventListener('change', () => {
+			this.dateTo = toEl.value;
+			this.renderGrid();
+		});
 
-			// まず、現在の画像リストに存在しないノートを検出
-			for (const file of files) {
-				try {
-					// ファイルの内容を取得
-					const content = await this.app.vault.read(file);
-					
-					// Gyazo IDを抽出
-					const imageId = this.extractGyazoIdFromNote(content);
-					if (imageId && !currentImageIds.has(imageId)) {
-						// 可能性のある削除画像として記録
-						potentiallyDeletedImages.push({imageId, filePath: file.path});
-					}
-				} catch (error) {
-					console.error(`ノート読み込みエラー: ${file.path}`, error);
-				}
-			}
+		// 表示中の画像のノートを一括操作
+		const bulkButton = filterEl.createEl('button', {text: '一括操作'});
+		bulkButton.addEventListener('click', () => {
+			this.plugin.openBulkActions(this.images.filter(item => this.matches(item)).map(item => item.file));
+		});
 
-			console.log(`可能性のある削除画像: ${potentiallyDeletedImages.length}件`);
+		this.gridEl = container.createDiv('gyazo-browser-grid');
 
-			// 可能性のある削除画像ごとに、実際に削除されたか確認
-			for (const item of potentiallyDeletedImages) {
-				try {
-					// 画像の詳細情報を取得して、実際に存在するか確認
-					const imageDetail = await this.fetchImageDetail(item.imageId);
-					
-					// 画像が存在しない場合は削除されたと判断
-					if (!imageDetail) {
-						console.log(`削除された画像を確認: ${item.imageId}, ノート: ${item.filePath}`);
-						
-						// ノートファイルを取得
-						const file = this.app.vault.getAbstractFileByPath(item.filePath);
-						if (file instanceof TFile) {
-							// 自動削除設定が有効な場合はノートを削除
-							if (this.settings.deleteNotesForDeletedImages) {
-								await this.app.vault.delete(file);
-								deletedCount++;
-								console.log(`削除された画像のノートを削除: ${item.filePath}`);
-							} else {
-								// 自動削除が無効な場合は通知のみ
-								new Notice(`Gyazoで削除された画像があります: ${item.filePath}`);
-							}
-						}
-					} else {
-						// 画像が存在する場合は、ページネーションの制限で取得できなかっただけ
-						console.log(`画像は存在しますが、ページネーションの制限で取得されませんでした: ${item.imageId}`);
-					}
-				} catch (error) {
-					console.error(`画像確認エラー (${item.imageId}): ${error.message || error}`);
-				}
-			}
+		// Gyazoノートが変更されたら再読み込み
+		this.registerEvent(this.app.metadataCache.on('changed', (file) => {
+			if (this.plugin.getGyazoIdForNote(file)) this.requestRefresh();
+		}));
+		this.registerEvent(this.app.vault.on('delete', () => this.requestRefresh()));
+		this.registerEvent(this.app.vault.on('rename', () => this.requestRefresh()));
 
-			// 削除されたノートがあれば通知
-			if (deletedCount > 0) {
-				new Notice(`Gyazoで削除された画像のノートを${deletedCount}件削除しました`);
-			}
-		} catch (error) {
-			console.error('削除画像検知エラー:', error);
-		}
+		await this.refresh();
 	}
 
-	// ノートからGyazo IDを抽出するメソッド
-	extractGyazoIdFromNote(content: string): string | null {
-		const match = content.match(/gyazo_id:\s*([a-zA-Z0-9]+)/);
-		return match ? match[1] : null;
-	}
+	// 同期済みの画像を読み込み直すメソッド
+	async refresh() {
+		this.images = await this.plugin.getSyncedImages();
 
-	async fetchImageDetail(imageId: string): Promise<GyazoImage | null> {
-		if (!imageId) {
-			console.error('画像IDが空です');
-			return null;
+		// アプリの選択肢を更新
+		const apps = Array.from(new Set(this.images.map(item => item.image.metadata?.app).filter((app): app is string => !!app))).sort();
+		this.appSelectEl.empty();
+		this.appSelectEl.createEl('option', {text: 'すべてのアプリ', value: ''});
+		for (const app of apps) {
+			this.appSelectEl.createEl('option', {text: app, value: app});
 		}
+		this.appSelectEl.value = apps.includes(this.appFilter) ? this.appFilter : '';
+		this.appFilter = this.appSelectEl.value;
 
-		console.log(`画像詳細を取得中: ${imageId}`);
+		this.renderGrid();
+	}
 
-		try {
-			// 画像の詳細情報を取得
-			const url = `https://api.gyazo.com/api/images/${imageId}`;
-			console.log(`リクエストURL: ${url}`);
+	// 検索条件に一致する画像のタイルを表示するメソッド
+	private renderGrid() {
+		this.gridEl.empty();
 
-			const response = await axios.get(url, {
-				params: {
-					access_token: this.settings.clientId
-				}
-			});
+		const items = this.images.filter(item => this.matches(item));
+		if (items.length === 0) {
+			this.gridEl.createEl('p', {text: '該当する画像がありません'});
+			return;
+		}
 
-			if (response.status !== 200) {
-				console.error(`画像詳細の取得エラー: ${response.status}`);
-				return null;
-			}
+		for (const item of items) {
+			const {image} = item;
+			const tileEl = this.gridEl.createDiv('gyazo-browser-tile');
 
-			console.log(`画像詳細取得成功: ${imageId}`, response.data);
-			return response.data as GyazoImage;
-		} catch (error) {
-			console.error(`画像詳細の取得エラー (${imageId}): ${error.message || error}`);
-			return null;
-		}
-	}
+			const src = this.plugin.getPreviewSrc(image, item.localPath, item.localThumbPath, false);
+			const imgEl = tileEl.createEl('img', {attr: {src, loading: 'lazy'}});
+			imgEl.addEventListener('click', () => this.openNote(item));
 
-	async ensureSaveDirectory(): Promise<TFolder> {
-		const vault = this.app.vault;
-		const dirPath = this.settings.saveDirectory;
+			tileEl.createDiv({cls: 'gyazo-browser-tile-title', text: image.metadata?.title || image.image_id});
+			const meta = [moment(image.created_at).format('YYYY-MM-DD HH:mm'), image.metadata?.app].filter(Boolean).join(' / ');
+			tileEl.createDiv({cls: 'gyazo-browser-tile-meta', text: meta});
 
-		// ディレクトリが存在するか確認
-		let dir = vault.getAbstractFileByPath(dirPath) as TFolder;
-		if (!dir) {
-			// ディレクトリが存在しない場合は作成
-			dir = await vault.createFolder(dirPath);
+			const actionsEl = tileEl.createDiv('gyazo-browser-tile-actions');
+			this.addTileAction(actionsEl, 'file-text', 'ノートを開く', () => this.openNote(item));
+			this.addTileAction(actionsEl, 'external-link', 'Gyazoで表示', () => window.open(image.permalink_url));
+			this.addTileAction(actionsEl, 'image-plus', 'エディタに埋め込みを挿入', () => this.insertEmbed(item));
+			this.addTileAction(actionsEl, 'copy', 'URLをコピー', async () => {
+				await navigator.clipboard.writeText(image.url);
+				new Notice('URLをコピーしました');
+			});
+			this.addTileAction(actionsEl, 'trash', 'Gyazo画像を削除', () => this.plugin.deleteGyazoNote(item.file));
 		}
+	}
 
-		return dir;
+	// タイルに操作ボタンを追加するメソッド
+	private addTileAction(containerEl: HTMLElement, icon: string, label: string, onClick: () => void) {
+		const buttonEl = containerEl.createEl('button', {attr: {'aria-label': label}});
+		buttonEl.addClass('clickable-icon');
+		setIcon(buttonEl, icon);
+		buttonEl.addEventListener('click', (evt) => {
+			evt.stopPropagation();
+			onClick();
+		});
 	}
 
-	async createOrUpdateNote(image: GyazoImage): Promise<'created' | 'updated' | 'skipped'> {
-		const vault = this.app.vault;
-		
-		// 日付と時間をYYYY-MM-DD_HHMMSS形式で取得
-		const createdDateTime = new Date(image.created_at);
-		const createdDate = createdDateTime.toISOString().split('T')[0];
-		const createdTime = `${String(createdDateTime.getHours()).padStart(2, '0')}${String(createdDateTime.getMinutes()).padStart(2, '0')}${String(createdDateTime.getSeconds()).padStart(2, '0')}`;
-		
-		// ファイル名の作成
-		const appName = image.metadata?.app ? this.sanitizeFileName(image.metadata.app) : '';
-		const title = image.metadata?.title ? this.sanitizeFileName(image.metadata.title) : '';
-		
-		// ファイル名の生成
-		let fileNameBase = `Gyazo ${createdDate}_${createdTime}`;
-		if (appName) fileNameBase += ` ${appName}`;
-		if (title) fileNameBase += ` ${title}`;
-		if (!appName && !title) fileNameBase += ` ${image.image_id}`;
-		
-		const fileName = `${this.settings.saveDirectory}/${fileNameBase}.md`;
+	// 検索条件に一致するかを判定するメソッド
+	private matches(item: SyncedGyazoImage): boolean {
+		const {image} = item;
 
-		// ファイルが既に存在するか確認
-		const existingFile = vault.getAbstractFileByPath(fileName) as TFile;
-		if (existingFile) {
-			// 既存のファイルを更新
-			try {
-				// 既存のノートの内容を取得
-				const existingContent = await vault.read(existingFile);
-				
-				// 新しいメタデータを生成
-				const newMetadata = this.createMetadata(image);
-				
-				// 既存の内容をメタデータと本文に分割
-				const parts = this.splitNoteContent(existingContent);
-				
-				// OCRデータの処理
-				let updatedContent = parts.body;
-				
-				// 新しいOCRデータがあるか確認
-				if (image.ocr?.description && !existingContent.includes('## OCRテキスト')) {
-					// OCRデータが新しく追加された場合は追記
-					updatedContent += `\n\n## OCRテキスト\n${image.ocr.description}\n`;
-				}
-				
-				// メタデータと本文を結合
-				const finalContent = `---\n${newMetadata}---\n\n${updatedContent}`;
-				
-				// ファイルを更新
-				await vault.modify(existingFile, finalContent);
-				return 'updated';
-			} catch (error) {
-				console.error('ノート更新エラー:', error);
-				new Notice('ノートの更新に失敗しました');
-				return 'skipped';
-			}
-		} else {
-			// 新しいファイルを作成
-			const noteContent = this.createNoteContent(image);
-			await vault.create(fileName, noteContent);
-			return 'created';
-		}
-	}
+		if (this.appFilter && image.metadata?.app !== this.appFilter) return false;
 
-	// ファイル名に使用できない文字を除去するメソッド
-	sanitizeFileName(name: string): string {
-		// ファイル名に使用できない文字を除去し、スペースで置き換え
-		return name.replace(/[\\/:\*\?\"<>\|]/g, ' ').trim();
-	}
+		const created = moment(image.created_at).format('YYYY-MM-DD');
+		if (this.dateFrom && created < this.dateFrom) return false;
+		if (this.dateTo && created > this.dateTo) return false;
 
-	// メタデータ部分のみを生成するメソッド
-	createMetadata(image: GyazoImage): string {
-		const createdDate = new Date(image.created_at).toISOString().split('T')[0];
-		let metadata = `category:
-  - "[[Gyazo Images]]"
-gyazo_id: ${image.image_id}
-created_at: ${image.created_at}
-created: ${createdDate}
-type: ${image.type}
-permalink_url: ${image.permalink_url}
-url: ${image.url}
-thumb_url: ${image.thumb_url}
-`;
+		return this.plugin.matchesImageQuery(image, this.query);
+	}
 
-		// メタデータがあれば追加
-		if (image.metadata) {
-			if (image.metadata.app) metadata += `app: ${image.metadata.app}
-`;
-			if (image.metadata.title) metadata += `title: ${image.metadata.title}
-`;
-			if (image.metadata.url) metadata += `source_url: ${image.metadata.url}
-`;
-			if (image.metadata.desc) metadata += `description: ${image.metadata.desc}
-`;
-		}
+	// ノートを開くメソッド
+	private async openNote(item: SyncedGyazoImage) {
+		await this.app.workspace.getLeaf(false).openFile(item.file);
+	}
 
-		// OCRデータがあれば追加
-		if (image.ocr) {
-			metadata += `ocr_locale: ${image.ocr.locale}
-`;
+	// 最後に使用したエディタに画像の埋め込みを挿入するメソッド
+	private insertEmbed(item: SyncedGyazoImage) {
+		const leaf = this.app.workspace.getMostRecentLeaf();
+		if (!leaf || !(leaf.view instanceof MarkdownView)) {
+			new Notice('埋め込みを挿入するノートを開いてください');
+			return;
 		}
 
-		return metadata;
+		const title = item.image.metadata?.title || `Gyazo Image ${item.image.image_id}`;
+		const embed = item.localPath ? `![[${item.localPath}]]` : this.plugin.getEmbed(item.image, null, title);
+		leaf.view.editor.replaceSelection(embed);
 	}
 
-	// ノートの内容をメタデータと本文に分割するメソッド
-	splitNoteContent(content: string): { metadata: string, body: string } {
-		// メタデータと本文を分割
-		const metadataRegex = /^---\n([\s\S]*?)\n---\n([\s\S]*)$/;
-		const match = content.match(metadataRegex);
-		
-		if (match && match.length >= 3) {
-			return {
-				metadata: match[1],
-				body: match[2].trim()
-			};
-		}
-		
-		// メタデータが見つからない場合は、全体を本文として扱う
-		return {
-			metadata: '',
-			body: content.trim()
-		};
+	async onClose() {
+		this.contentEl.empty();
 	}
+}
 
-	createNoteContent(image: GyazoImage): string {
-		const createdDate = new Date(image.created_at).toISOString().split('T')[0];
-		const title = image.metadata?.title || `Gyazo Image ${image.image_id}`;
+// 同期済みのGyazo画像を検索してエディタに挿入するためのModalクラス
+class GyazoImageSuggestModal extends SuggestModal<SyncedGyazoImage> {
+	private plugin: GyazoPlugin;
+	private editor: Editor;
+	private sourcePath: string;
+	private images: SyncedGyazoImage[];
+	private suggestionItems: WeakMap<HTMLElement, SyncedGyazoImage> = new WeakMap(); // 候補の要素ごとの画像
 
-		// メタデータを生成
-		const metadata = this.createMetadata(image);
+	constructor(app: App, plugin: GyazoPlugin, editor: Editor, sourcePath: string, images: SyncedGyazoImage[]) {
+		super(app);
+		this.plugin = plugin;
+		this.editor = editor;
+		this.sourcePath = sourcePath;
+		this.images = images;
+		this.limit = 50;
+		this.emptyStateText = '該当する画像がありません';
+		this.setPlaceholder('タイトル・アプリ・OCRテキスト・日付で検索');
+		this.setInstructions([
+			{command: '↵', purpose: '画像の埋め込みを挿入'},
+			{command: 'shift ↵', purpose: 'Gyazoノートへのリンクを挿入'},
+			{command: 'ctrl/cmd ↵', purpose: 'パーマリンクを挿入'}
+		]);
 
-		// 本文を生成
-		let body = `# ${title}
+		// 修飾キー付きのEnterでも選択中の項目を確定する
+		this.scope.register(['Shift'], 'Enter', (evt) => this.chooseSelected(evt));
+		this.scope.register(['Mod'], 'Enter', (evt) => this.chooseSelected(evt));
+	}
 
-![${title}](${image.url})
+	// タイトル・アプリ名・参照元URL・撮影日をあいまい検索し、一致の度合いの高い順に並べる
+	// OCRテキストはあいまい検索では一致しすぎるため、語を含む画像のみ後ろに加える
+	getSuggestions(query: string): SyncedGyazoImage[] {
+		if (!query.trim()) return this.images;
 
-`;
+		const fuzzySearch = prepareFuzzySearch(query.trim());
+		const fuzzyMatches: {item: SyncedGyazoImage, score: number}[] = [];
+		const textMatches: SyncedGyazoImage[] = [];
+		for (const item of this.images) {
+			const {image} = item;
+			const text = [image.metadata?.title, image.metadata?.app, image.metadata?.url, moment(image.created_at).format('YYYY-MM-DD')].filter(Boolean).join(' ');
+			const match = fuzzySearch(text);
+			if (match) {
+				fuzzyMatches.push({item, score: match.score});
+			} else if (this.plugin.matchesImageQuery(image, query)) {
+				textMatches.push(item);
+			}
+		}
 
-		// Gyazoページへのリンクを追加
-		body += `[Gyazoで表示](${image.permalink_url})
+		fuzzyMatches.sort((a, b) => b.score - a.score);
+		return [...fuzzyMatches.map(match => match.item), ...textMatches];
+	}
 
-`;
+	renderSuggestion(item: SyncedGyazoImage, el: HTMLElement) {
+		const {image} = item;
+		el.addClass('gyazo-suggestion');
+		this.suggestionItems.set(el, item);
 
-		// 説明があれば追加
-		if (image.metadata?.desc) {
-			body += `## 説明
-${image.metadata.desc}
+		const src = this.plugin.getPreviewSrc(image, item.localPath, item.localThumbPath, false);
+		el.createEl('img', {cls: 'gyazo-suggestion-thumb', attr: {src, loading: 'lazy'}});
 
-`;
+		const textEl = el.createDiv('gyazo-suggestion-text');
+		textEl.createDiv({text: image.metadata?.title || image.image_id});
+		const meta = [moment(image.created_at).format('YYYY-MM-DD HH:mm'), image.metadata?.app].filter(Boolean).join(' / ');
+		textEl.createEl('small', {text: meta});
+		if (image.ocr?.description) {
+			textEl.createDiv({cls: 'gyazo-suggestion-ocr', text: image.ocr.description.replace(/\s+/g, ' ').slice(0, 80)});
 		}
+	}
 
-		// OCRテキストがあれば追加
-		if (image.ocr?.description) {
-			body += `## OCRテキスト
-${image.ocr.description}
+	onChooseSuggestion(item: SyncedGyazoImage, evt: MouseEvent | KeyboardEvent) {
+		const {image} = item;
+		const title = image.metadata?.title || `Gyazo Image ${image.image_id}`;
 
-`;
+		let text: string;
+		if (evt.shiftKey) {
+			// Gyazoノートへのリンク
+			text = this.app.fileManager.generateMarkdownLink(item.file, this.sourcePath);
+		} else if (evt.ctrlKey || evt.metaKey) {
+			// パーマリンク
+			text = image.permalink_url;
+		} else {
+			// 画像の埋め込み（動画は設定に従って<video>またはサムネイル）
+			text = this.plugin.getEmbed(image, null, title);
 		}
 
-		return `---
-${metadata}---
+		this.editor.replaceSelection(text);
+	}
 
-${body}`;
+	// 選択中の項目を修飾キーに応じて確定するメソッド
+	private chooseSelected(evt: KeyboardEvent): boolean {
+		const selectedEl = this.resultContainerEl.querySelector<HTMLElement>('.suggestion-item.is-selected');
+		const item = selectedEl ? this.suggestionItems.get(selectedEl) : undefined;
+		if (item) {
+			this.close();
+			this.onChooseSuggestion(item, evt);
+		}
+		return false;
 	}
 }
 
-class GyazoSettingTab extends PluginSettingTab {
-	plugin: GyazoPlugin;
+// 同期の履歴を表示するモーダル
+class SyncHistoryModal extends Modal {
+	private plugin: GyazoPlugin;
 
 	constructor(app: App, plugin: GyazoPlugin) {
-		super(app, plugin);
+		super(app);
 		this.plugin = plugin;
 	}
 
-	display(): void {
-		const {containerEl} = this;
+	onOpen() {
+		const {contentEl} = this;
+		contentEl.empty();
 
-		containerEl.empty();
+		contentEl.createEl('h2', {text: 'Gyazo同期の履歴'});
 
-		containerEl.createEl('h2', {text: 'Gyazo連携設定'});
+		const history = this.plugin.syncHistory;
+		if (history.length === 0) {
+			contentEl.createEl('p', {text: '同期の履歴はありません。'});
+			return;
+		}
 
-		new Setting(containerEl)
-			.setName('Gyazo Client ID')
-			.setDesc('Gyazo APIのクライアントIDを入力してください。Gyazo APIのページから取得できます。')
-			.addText(text => text
-				.setPlaceholder('Client IDを入力')
-				.setValue(this.plugin.settings.clientId)
-				.onChange(async (value) => {
-					this.plugin.settings.clientId = value;
+		const listEl = contentEl.createDiv();
+		listEl.addClass('gyazo-sync-history');
+		for (const entry of history) {
+			const account = this.plugin.getAccount(entry.accountId);
+			const itemEl = listEl.createDiv();
+			itemEl.addClass('gyazo-sync-history-item');
+
+			const kind = entry.kind === 'import' ? 'ライブラリのインポート' : '同期';
+			itemEl.createDiv({
+				cls: 'gyazo-sync-history-title',
+				text: `${moment(entry.timestamp).format('YYYY-MM-DD HH:mm:ss')} ${account ? this.plugin.getAccountLabel(account) : ''}${kind}`
+			});
+			itemEl.createDiv({
+				text: `${entry.created}件作成, ${entry.updated}件更新, ${entry.renamed}件名前変更, ${entry.deleted}件削除, ${entry.errors.length}件のエラー`
+			});
+
+			if (entry.errors.length > 0) {
+				const errorsEl = itemEl.createEl('ul');
+				errorsEl.addClass('gyazo-sync-history-errors');
+				for (const error of entry.errors) {
+					errorsEl.createEl('li', {text: error.imageId ? `${error.imageId}: ${error.message}` : error.message});
+				}
+			}
+		}
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('履歴を消去')
+				.onClick(async () => {
+					await this.plugin.clearSyncHistory();
+					this.onOpen();
+				}));
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
+
+// Gyazoノートの一括操作を選択するモーダル
+class BulkActionModal extends Modal {
+	private plugin: GyazoPlugin;
+	private files: TFile[];
+	private action: BulkAction = 'refresh';
+	private folder = '';
+	private tags = '';
+	private exportPath = `Gyazo/gyazo-export-${moment().format('YYYYMMDD-HHmmss')}.csv`;
+	private optionsEl: HTMLElement;
+
+	constructor(app: App, plugin: GyazoPlugin, files: TFile[]) {
+		super(app);
+		this.plugin = plugin;
+		this.files = files;
+	}
+
+	onOpen() {
+		const {contentEl} = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', {text: 'Gyazoノートの一括操作'});
+
+		// 対象のノートを表示（多い場合は先頭のみ）
+		const detailsEl = contentEl.createEl('details');
+		detailsEl.createEl('summary', {text: `${this.files.length}件のGyazoノートが対象です`});
+		const listEl = detailsEl.createEl('ul');
+		for (const file of this.files.slice(0, BULK_PREVIEW_LIMIT)) {
+			listEl.createEl('li', {text: file.path});
+		}
+		if (this.files.length > BULK_PREVIEW_LIMIT) {
+			listEl.createEl('li', {text: `ほか${this.files.length - BULK_PREVIEW_LIMIT}件`});
+		}
+
+		new Setting(contentEl)
+			.setName('操作')
+			.addDropdown(dropdown => dropdown
+				.addOptions(BULK_ACTION_LABELS)
+				.setValue(this.action)
+				.onChange(value => {
+					this.action = value as BulkAction;
+					this.renderOptions();
+				}));
+
+		this.optionsEl = contentEl.createDiv();
+		this.renderOptions();
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('キャンセル')
+				.onClick(() => {
+					this.close();
+				}))
+			.addButton(button => button
+				.setButtonText('実行')
+				.setCta()
+				.onClick(() => {
+					this.close();
+					this.plugin.startBulkAction(this.action, this.files, {folder: this.folder, tags: this.tags, exportPath: this.exportPath});
+				}));
+	}
+
+	// 選択した操作のオプションを表示するメソッド
+	private renderOptions() {
+		const containerEl = this.optionsEl;
+		containerEl.empty();
+
+		switch (this.action) {
+			case 'delete':
+				containerEl.createEl('p', {text: '実行すると削除の確認画面が表示されます。'});
+				break;
+			case 'refresh':
+				containerEl.createEl('p', {text: 'Gyazoから画像の最新の情報を取得し、フロントマターと説明・OCRテキストのセクションを更新します。'});
+				break;
+			case 'rerender':
+				containerEl.createEl('p', {text: 'ノートの本文を現在の本文テンプレートで作り直します。本文に追記した内容は失われます（ユーザーが追加したプロパティは保持されます）。'});
+				break;
+			case 'move':
+				new Setting(containerEl)
+					.setName('移動先のフォルダ')
+					.setDesc('空の場合は移動しません。')
+					.addText(text => text
+						.setPlaceholder('例: Gyazo/Projects')
+						.setValue(this.folder)
+						.onChange(value => {
+							this.folder = value.trim().replace(/\/+$/, '');
+						}));
+				new Setting(containerEl)
+					.setName('追加するタグ')
+					.setDesc('カンマ区切りで指定します。空の場合はタグを追加しません。')
+					.addText(text => text
+						.setPlaceholder('例: project, review')
+						.setValue(this.tags)
+						.onChange(value => {
+							this.tags = value;
+						}));
+				break;
+			case 'export':
+				new Setting(containerEl)
+					.setName('書き出し先のファイル')
+					.setDesc('画像ID・タイトル・アプリ名・撮影日時・URL・ノートのパス・OCRテキストをCSVファイルに書き出します。')
+					.addText(text => text
+						.setValue(this.exportPath)
+						.onChange(value => {
+							this.exportPath = value.trim();
+						}));
+				break;
+		}
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
+
+// 検索語に一致するGyazoノートを一括操作の対象にするモーダル
+class BulkSearchModal extends Modal {
+	private plugin: GyazoPlugin;
+	private images: SyncedGyazoImage[] = [];
+	private query = '';
+	private countEl: HTMLElement;
+
+	constructor(app: App, plugin: GyazoPlugin) {
+		super(app);
+		this.plugin = plugin;
+	}
+
+	async onOpen() {
+		const {contentEl} = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', {text: 'Gyazoノートを検索して一括操作'});
+
+		new Setting(contentEl)
+			.setName('検索語')
+			.setDesc('タイトル・アプリ名・参照元URL・OCRテキスト・撮影日で検索します。空白区切りのすべての語を含むノートが対象です。')
+			.addText(text => {
+				text
+					.setPlaceholder('例: Figma 2024-05')
+					.onChange(value => {
+						this.query = value;
+						this.updateCount();
+					});
+				text.inputEl.addEventListener('keydown', (evt) => {
+					if (evt.key === 'Enter') this.submit();
+				});
+			});
+
+		this.countEl = contentEl.createEl('p', {text: '読み込み中...'});
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('キャンセル')
+				.onClick(() => {
+					this.close();
+				}))
+			.addButton(button => button
+				.setButtonText('次へ')
+				.setCta()
+				.onClick(() => {
+					this.submit();
+				}));
+
+		this.images = await this.plugin.getSyncedImages();
+		this.updateCount();
+	}
+
+	// 検索語に一致するノートを取得するメソッド
+	private getMatches(): TFile[] {
+		return this.images.filter(item => this.plugin.matchesImageQuery(item.image, this.query)).map(item => item.file);
+	}
+
+	// 一致するノートの件数を表示するメソッド
+	private updateCount() {
+		this.countEl.setText(`${this.getMatches().length}件のGyazoノートが一致します`);
+	}
+
+	// 一致したノートの一括操作を選択するメソッド
+	private submit() {
+		const files = this.getMatches();
+		this.close();
+		this.plugin.openBulkActions(files);
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
+
+// 一括操作の進捗と結果を表示するモーダル
+class BulkActionProgressModal extends Modal {
+	cancelled = false;
+	private title: string;
+	private statusEl: HTMLElement;
+	private progressEl: HTMLProgressElement;
+	private resultEl: HTMLElement;
+	private cancelButton: HTMLButtonElement;
+
+	constructor(app: App, title: string) {
+		super(app);
+		this.title = title;
+	}
+
+	onOpen() {
+		const {contentEl} = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', {text: this.title});
+		this.statusEl = contentEl.createEl('p', {text: '準備中...'});
+		this.progressEl = contentEl.createEl('progress');
+		this.progressEl.style.width = '100%';
+		this.resultEl = contentEl.createDiv();
+
+		const buttonContainer = contentEl.createDiv();
+		buttonContainer.style.display = 'flex';
+		buttonContainer.style.justifyContent = 'flex-end';
+		buttonContainer.style.marginTop = '20px';
+
+		this.cancelButton = buttonContainer.createEl('button', {text: '中止'});
+		this.cancelButton.addClass('mod-warning');
+		this.cancelButton.addEventListener('click', () => {
+			if (this.cancelled || this.progressEl.value >= this.progressEl.max) {
+				this.close();
+				return;
+			}
+			this.cancelled = true;
+			this.statusEl.setText('中止しています...');
+		});
+	}
+
+	// 進捗を更新するメソッド
+	setProgress(processedCount: number, totalCount: number, message: string) {
+		if (!this.statusEl) return;
+		this.statusEl.setText(message);
+		this.progressEl.max = totalCount;
+		this.progressEl.value = processedCount;
+	}
+
+	// 結果と失敗したノートの一覧を表示するメソッド
+	showResult(result: BulkActionResult) {
+		if (!this.statusEl) return;
+
+		const status = result.cancelled ? '中止しました' : '完了しました';
+		this.statusEl.setText(`${status}: ${result.successCount}件成功, ${result.failures.length}件失敗`);
+		this.cancelButton.setText('閉じる');
+		this.cancelButton.removeClass('mod-warning');
+		this.cancelled = true;
+
+		if (result.failures.length > 0) {
+			const listEl = this.resultEl.createEl('ul');
+			listEl.addClass('gyazo-bulk-failures');
+			for (const failure of result.failures) {
+				listEl.createEl('li', {text: `${failure.path}: ${failure.message}`});
+			}
+		}
+	}
+
+	onClose() {
+		// Escキーなどで閉じた場合も処理を中止する
+		this.cancelled = true;
+		this.contentEl.empty();
+	}
+}
+
+export default class GyazoPlugin extends Plugin {
+	settings: GyazoPluginSettings;
+	scheduleTimer: number | null = null; // 定期取得の予定を確認するタイマー
+	lastScheduleCheck = 0; // 最後に定期取得の予定を確認した時間（スリープからの復帰の検知に使用）
+	syncRunning = false; // 同期またはインポートを実行中かどうか（同時に1つのみ実行する）
+	deferredConflicts: {item: SyncPlanItem, account: GyazoAccount}[] = []; // 同期の完了後に確認するタイトル・説明の競合
+	resolvingConflicts = false; // タイトル・説明の競合を確認中かどうか
+	editedAccountIds: Set<string> = new Set(); // 同期を待っているタイトル・説明を編集したノートのアカウント
+	noteIndex: Map<string, TFile> = new Map(); // gyazo_idからノートへのインデックス
+	notePathIndex: Map<string, string> = new Map(); // ノートのパスからgyazo_idへのインデックス
+	backfillModal: BackfillProgressModal | null = null; // 実行中のライブラリ全体のインポート
+	clients: Map<string, GyazoClient> = new Map(); // アカウントごとのGyazo APIのクライアント
+	accountUsers: Map<string, GyazoUser | null> = new Map(); // アカウントごとに確認したログイン中のユーザー（nullはアクセストークンが無効）
+	detailCache: Record<string, DetailCacheEntry> = {}; // 画像IDごとの詳細のキャッシュ
+	detailCacheDirty = false; // キャッシュに保存していない変更があるかどうか
+	cardRequests: Map<string, Promise<GyazoCardImage | null>> = new Map(); // カード表示用の取得中のリクエスト
+	settingTab: GyazoSettingTab;
+	syncHistory: SyncHistoryEntry[] = []; // 新しい順の同期の履歴
+	statusBarEl: HTMLElement;
+	syncProgress: string | null = null; // 実行中の同期の進捗（null=実行中でない）
+	nextFetchTimes: Map<string, number> = new Map(); // アカウントごとの次回の定期取得の時間
+	ocrIndex: OcrIndex = new OcrIndex();
+	ocrProvider: OcrProvider | null = null; // 端末内のOCRのプロバイダー（初回の使用時に作成）
+	mediaInfoCache: Map<string, MediaInfo> = new Map(); // 取得した動画・GIFのファイルの情報
+	oauthRequest: {state: string, accountId: string} | null = null; // OAuthのログイン中に使用するstateパラメータとログインするアカウント
+
+	async onload() {
+		await this.loadSettings();
+		await this.loadDetailCache();
+		await this.loadSyncHistory();
+		await this.loadOcrIndex();
+
+		// 同期の状態を表示するステータスバーの項目を追加（クリックで履歴を表示）
+		this.statusBarEl = this.addStatusBarItem();
+		this.statusBarEl.addClass('gyazo-status-bar');
+		this.statusBarEl.onClickEvent(() => {
+			new SyncHistoryModal(this.app, this).open();
+		});
+		this.updateStatusBar();
+
+		// リボンアイコンを追加
+		const ribbonIconEl = this.addRibbonIcon('image', 'Gyazo画像取得', (evt: MouseEvent) => {
+			this.fetchGyazoImages();
+		});
+		ribbonIconEl.addClass('gyazo-plugin-ribbon-class');
+
+		// コマンドを追加
+		this.addCommand({
+			id: 'fetch-gyazo-images',
+			name: 'Gyazo画像を取得',
+			callback: () => {
+				this.fetchGyazoImages();
+			}
+		});
+
+		// Gyazoブラウザのビューを登録
+		this.registerView(VIEW_TYPE_GYAZO_BROWSER, (leaf) => new GyazoBrowserView(leaf, this));
+
+		// Gyazoブラウザを開くコマンドを追加
+		this.addCommand({
+			id: 'open-gyazo-browser',
+			name: 'Gyazoブラウザを開く',
+			callback: () => {
+				this.activateBrowserView();
+			}
+		});
+
+		// 同期済みのGyazo画像を検索してエディタに挿入するコマンドを追加
+		this.addCommand({
+			id: 'insert-gyazo-image',
+			name: 'Gyazo画像を検索して挿入',
+			editorCallback: async (editor: Editor, view: MarkdownView) => {
+				const images = await this.getSyncedImages();
+				new GyazoImageSuggestModal(this.app, this, editor, view.file?.path || '', images).open();
+			}
+		});
+
+		// Gyazo画像削除コマンドを追加
+		this.addCommand({
+			id: 'delete-gyazo-image',
+			name: '現在のノートのGyazo画像を削除',
+			checkCallback: (checking) => {
+				// 現在開いているノートを取得
+				const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
+				if (activeView) {
+					if (!checking) {
+						this.deleteCurrentGyazoImage(activeView);
+					}
+					return true;
+				}
+				return false;
+			}
+		});
+
+		// Vault内の画像をGyazoへアップロードするコマンドを追加
+		this.addCommand({
+			id: 'upload-image-to-gyazo',
+			name: 'Vault内の画像をGyazoへアップロード',
+			callback: () => {
+				new VaultImageSuggestModal(this.app, (file) => {
+					this.uploadVaultFileWithModal(file);
+				}).open();
+			}
+		});
+
+		// 現在のノートのローカル画像をGyazoへアップロードして埋め込みを置き換えるコマンドを追加
+		this.addCommand({
+			id: 'upload-and-replace-local-embeds',
+			name: '現在のノートのローカル画像をGyazoへアップロードして置き換え',
+			editorCallback: (editor: Editor, view: MarkdownView) => {
+				this.uploadAndReplaceLocalEmbeds(editor, view);
+			}
+		});
+
+		// ファイルメニューにGyazoアップロードを追加
+		this.registerEvent(this.app.workspace.on('file-menu', (menu, file) => {
+			if (!(file instanceof TFile) || !IMAGE_EXTENSIONS.includes(file.extension.toLowerCase())) return;
+			menu.addItem(item => item
+				.setTitle('Gyazoへアップロード')
+				.setIcon('upload')
+				.onClick(() => {
+					this.uploadVaultFileWithModal(file);
+				}));
+		}));
+
+		// フォルダのファイルメニューと複数選択時のメニューにGyazoノートの一括操作を追加
+		this.registerEvent(this.app.workspace.on('file-menu', (menu, file) => {
+			if (!(file instanceof TFolder)) return;
+			menu.addItem(item => item
+				.setTitle('Gyazoノートを一括操作')
+				.setIcon('list-checks')
+				.onClick(() => {
+					this.openBulkActions(this.collectGyazoNotes([file]));
+				}));
+		}));
+		this.registerEvent(this.app.workspace.on('files-menu', (menu, files) => {
+			const notes = this.collectGyazoNotes(files);
+			if (notes.length === 0) return;
+			menu.addItem(item => item
+				.setTitle(`Gyazoノートを一括操作（${notes.length}件）`)
+				.setIcon('list-checks')
+				.onClick(() => {
+					this.openBulkActions(notes);
+				}));
+		}));
+
+		// エディタへの画像の貼り付け・ドロップ時にGyazoへアップロード
+		this.registerEvent(this.app.workspace.on('editor-paste', (evt, editor) => {
+			this.handleEditorImageTransfer(evt, evt.clipboardData, editor);
+		}));
+		this.registerEvent(this.app.workspace.on('editor-drop', (evt, editor) => {
+			this.handleEditorImageTransfer(evt, evt.dataTransfer, editor);
+		}));
+
+		// 同期内容をプレビューしてから実行するコマンドを追加
+		this.addCommand({
+			id: 'preview-gyazo-sync',
+			name: 'Gyazo画像の同期をプレビュー',
+			callback: () => {
+				this.fetchGyazoImages(true);
+			}
+		});
+
+		// Gyazoライブラリ全体をインポートするコマンドを追加
+		this.addCommand({
+			id: 'import-entire-gyazo-library',
+			name: 'Gyazoライブラリ全体をインポート',
+			callback: () => {
+				this.importEntireLibrary();
+			}
+		});
+
+		// 削除された画像としてアーカイブしたノートを復元するコマンドを追加
+		this.addCommand({
+			id: 'restore-archived-gyazo-note',
+			name: 'アーカイブしたGyazoノートを復元',
+			checkCallback: (checking) => {
+				const file = this.app.workspace.getActiveFile();
+				if (file && this.getGyazoIdForNote(file) && this.isArchivedNote(file)) {
+					if (!checking) {
+						this.restoreArchivedNote(file);
+					}
+					return true;
+				}
+				return false;
+			}
+		});
+
+		// 現在のノートの画像を今後同期しないようにするコマンドを追加
+		this.addCommand({
+			id: 'never-sync-gyazo-image',
+			name: '現在のノートのGyazo画像を今後同期しない',
+			checkCallback: (checking) => {
+				const file = this.app.workspace.getActiveFile();
+				const imageId = file ? this.getGyazoIdForNote(file) : null;
+				const account = file ? this.getAccountForNote(file) : null;
+				if (imageId && account) {
+					if (!checking) {
+						this.ignoreImage(imageId, account);
+					}
+					return true;
+				}
+				return false;
+			}
+		});
+
+		// 現在のノートの画像のOCRを再実行するコマンドを追加
+		this.addCommand({
+			id: 'rerun-gyazo-ocr',
+			name: '現在のノートのGyazo画像のOCRを再実行',
+			checkCallback: (checking) => {
+				const file = this.app.workspace.getActiveFile();
+				const imageId = file ? this.getGyazoIdForNote(file) : null;
+				if (file && imageId) {
+					if (!checking) {
+						this.rerunOcr(file, imageId);
+					}
+					return true;
+				}
+				return false;
+			}
+		});
+
+		// 検索語に一致するGyazoノートを一括操作するコマンドを追加
+		this.addCommand({
+			id: 'bulk-gyazo-notes',
+			name: 'Gyazoノートを検索して一括操作',
+			callback: () => {
+				new BulkSearchModal(this.app, this).open();
+			}
+		});
+
+		// 同期の履歴を表示するコマンドを追加
+		this.addCommand({
+			id: 'show-gyazo-sync-history',
+			name: 'Gyazo同期の履歴を表示',
+			callback: () => {
+				new SyncHistoryModal(this.app, this).open();
+			}
+		});
+
+		// 既存のノートにルールを再適用するコマンドを追加
+		this.addCommand({
+			id: 'reapply-gyazo-routing-rules',
+			name: 'Gyazoノートにルールを再適用',
+			callback: () => {
+				this.reapplyRoutingRules();
+			}
+		});
+
+		// フロントマターが壊れたGyazoノートを修復するコマンドを追加
+		this.addCommand({
+			id: 'repair-gyazo-notes',
+			name: 'Gyazoノートのフロントマターを修復',
+			callback: () => {
+				this.repairGyazoNotes();
+			}
+		});
+
+		// ```gyazo```コードブロックを画像のカードとして表示
+		this.registerMarkdownCodeBlockProcessor('gyazo', (source, el) => {
+			const line = source.split('\n').map(text => text.trim()).find(text => text.length > 0) || '';
+			const imageId = line.match(GYAZO_PERMALINK_REGEX)?.[1] || (/^[0-9a-f]{32}$/.test(line) ? line : null);
+			if (!imageId) {
+				el.createEl('p', {text: 'Gyazoの画像IDまたはパーマリンクを指定してください'});
+				return;
+			}
+			this.renderGyazoCard(el.createDiv(), imageId).catch(error => console.error('Gyazoカードの表示エラー:', error));
+		});
+
+		// URLのみのGyazoのパーマリンクを画像のカードとして表示
+		this.registerMarkdownPostProcessor((el) => {
+			if (!this.settings.renderPermalinkCards) return;
+
+			el.querySelectorAll('a.external-link').forEach((linkEl) => {
+				const href = linkEl.getAttribute('href') || '';
+				const match = href.match(GYAZO_PERMALINK_REGEX);
+				if (!match || linkEl.textContent !== href) return;
+
+				const cardEl = createDiv();
+				linkEl.replaceWith(cardEl);
+				this.renderGyazoCard(cardEl, match[1]).catch(error => console.error('Gyazoカードの表示エラー:', error));
+			});
+		});
+
+		// gyazo_idのインデックスを構築し、ノートの変更に追従させる
+		this.app.workspace.onLayoutReady(() => {
+			this.buildNoteIndex();
+		});
+		this.registerEvent(this.app.metadataCache.on('changed', (file) => {
+			this.indexNote(file);
+			this.handleNoteEdit(file);
+		}));
+		this.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+			if (!(file instanceof TFile)) return;
+			this.unindexNote(oldPath);
+			this.indexNote(file);
+		}));
+		this.registerEvent(this.app.vault.on('delete', (file) => {
+			this.unindexNote(file.path);
+		}));
+
+		// 設定タブを追加
+		this.settingTab = new GyazoSettingTab(this.app, this);
+		this.addSettingTab(this.settingTab);
+
+		// OAuthのコールバック（obsidian://gyazo-auth）を処理
+		this.registerObsidianProtocolHandler(OAUTH_CALLBACK_ACTION, (params) => {
+			this.handleOAuthCallback(params.code, params.state, params.error);
+		});
+
+		// モバイルでアプリがフォアグラウンドに戻ったときに、止めていた定期取得の遅れを取り戻す
+		this.registerDomEvent(document, 'visibilitychange', () => {
+			if (document.visibilityState === 'visible') this.checkFetchSchedule();
+		});
+
+		// 定期取得のタイマーを設定
+		this.setupFetchTimer();
+
+		// 起動時の同期
+		// 起動直後はメタデータのキャッシュが揃っておらず既存のノートを見落とす可能性があるため、
+		// キャッシュの解決後にgyazo_idのインデックスを作り直してから実行する
+		// （起動後にプラグインを有効にした場合は起動時ではないため実行しない）
+		if (this.settings.syncOnStartup && !this.app.workspace.layoutReady) {
+			const resolvedRef = this.app.metadataCache.on('resolved', () => {
+				this.app.metadataCache.offref(resolvedRef);
+				this.buildNoteIndex();
+				const accounts = this.settings.accounts.filter(account => this.getAccessToken(account));
+				if (accounts.length > 0) this.executeFetchTimer(accounts);
+			});
+			this.registerEvent(resolvedRef);
+		}
+	}
+
+	// 現在開いているノートのGyazo画像を削除するメソッド
+	async deleteCurrentGyazoImage(view: MarkdownView) {
+		const file = view.file;
+		if (!file) {
+			new Notice('ノートが開かれていません');
+			return;
+		}
+
+		this.deleteGyazoNote(file);
+	}
+
+	// Gyazoノートの画像を確認ダイアログを表示してから削除するメソッド
+	deleteGyazoNote(file: TFile) {
+		// Gyazoノートかどうかを確認してgyazo_idを取得
+		const imageId = this.getGyazoIdForNote(file);
+		if (!imageId) {
+			new Notice('このノートはGyazoノートではありません');
+			return;
+		}
+
+		const account = this.getAccountForNote(file);
+		if (!account) {
+			new Notice(UNKNOWN_ACCOUNT_MESSAGE);
+			return;
+		}
+
+		const localPaths = this.getLocalAttachmentPaths(file);
+
+		// 確認ダイアログを表示
+		const modal = new DeleteGyazoImageModal(this.app, [imageId], localPaths, async (deleteNote, deleteLocalFiles) => {
+			try {
+				// Gyazo APIで画像を削除
+				const success = await this.deleteGyazoImage(imageId, account);
+				
+				if (success) {
+					new Notice(`Gyazo画像 ${imageId} を削除しました`);
+					
+					// ノートも削除する場合（移動されている場合もインデックスから最新のノートを取得）
+					const noteFile = this.findNoteByGyazoId(imageId) || file;
+					if (deleteNote) {
+						await this.removeNote(noteFile);
+						new Notice('ノートを削除しました');
+					}
+
+					// ダウンロード済みの画像も削除する場合
+					if (deleteLocalFiles && localPaths.length > 0) {
+						await this.deleteLocalAttachments(localPaths);
+						new Notice('ダウンロード済みの画像を削除しました');
+					}
+				}
+			} catch (error) {
+				console.error('画像削除エラー:', error);
+				new Notice('画像の削除に失敗しました');
+			}
+		});
+		
+		modal.open();
+	}
+	
+	// Gyazo APIで画像を削除するメソッド
+	async deleteGyazoImage(imageId: string, account: GyazoAccount): Promise<boolean> {
+		try {
+			// Gyazo APIを呼び出して画像を削除
+			const result = await this.getClient(account).deleteImage(imageId);
+			
+			// レスポンスデータを確認
+			if (result && result.image_id === imageId) {
+				console.log(`画像削除成功: ${imageId}、タイプ: ${result.type}`);
+				return true;
+			} else {
+				console.warn('画像削除レスポンスが不正:', result);
+				return false;
+			}
+		} catch (error) {
+			// 再試行の前の削除が成功していた場合やすでに削除されている場合は404が返されるため、削除できたものとして扱う
+			if (error instanceof GyazoNotFoundError) {
+				console.log(`画像はすでに削除されています: ${imageId}`);
+				return true;
+			}
+			console.error('Gyazo API削除エラー:', error);
+			return false;
+		}
+	}
+
+	// ファイルとフォルダ（サブフォルダを含む）からGyazoノートを集めるメソッド
+	collectGyazoNotes(files: TAbstractFile[]): TFile[] {
+		const notes = new Set<TFile>();
+		for (const root of files) {
+			const collect = (file: TAbstractFile) => {
+				if (file instanceof TFile && this.getGyazoIdForNote(file)) notes.add(file);
+			};
+			if (root instanceof TFolder) {
+				Vault.recurseChildren(root, collect);
+			} else {
+				collect(root);
+			}
+		}
+		return Array.from(notes);
+	}
+
+	// Gyazoノートの一括操作を選択するモーダルを表示するメソッド
+	openBulkActions(files: TFile[]) {
+		if (files.length === 0) {
+			new Notice('対象のGyazoノートがありません');
+			return;
+		}
+		new BulkActionModal(this.app, this, files).open();
+	}
+
+	// 選択した一括操作を開始するメソッド（削除は確認してから実行）
+	async startBulkAction(action: BulkAction, files: TFile[], options: {folder: string, tags: string, exportPath: string}) {
+		const label = BULK_ACTION_LABELS[action];
+
+		switch (action) {
+			case 'delete': {
+				const imageIds = files.map(file => this.getGyazoIdForNote(file)).filter((imageId): imageId is string => imageId !== null);
+				const localPaths = files.flatMap(file => this.getLocalAttachmentPaths(file));
+				new DeleteGyazoImageModal(this.app, imageIds, localPaths, (deleteNote, deleteLocalFiles) => {
+					this.runBulkAction(label, files, async (file, imageId, account) => {
+						const paths = this.getLocalAttachmentPaths(file);
+						if (!await this.deleteGyazoImage(imageId, account)) {
+							throw new Error('Gyazoの画像を削除できませんでした');
+						}
+						if (deleteNote) await this.removeNote(file);
+						if (deleteLocalFiles && paths.length > 0) await this.deleteLocalAttachments(paths);
+					});
+				}).open();
+				break;
+			}
+			case 'refresh':
+				await this.runBulkAction(label, files, async (file, imageId, account) => {
+					const image = await this.fetchImageDetail(imageId, account);
+					if (!image) throw new Error('Gyazoから画像の情報を取得できませんでした');
+					const attachment = this.shouldDownloadAttachment(image) ? await this.downloadImageAttachment(image) : null;
+					await this.createOrUpdateNote(image, attachment, account);
+				});
+				break;
+			case 'rerender': {
+				const bodyTemplate = await this.loadBodyTemplate();
+				await this.runBulkAction(label, files, async (file, imageId, account) => {
+					await this.rerenderNote(file, imageId, account, bodyTemplate);
+				});
+				break;
+			}
+			case 'move': {
+				const tags = options.tags.split(',').map(tag => tag.trim().replace(/^#/, '')).filter(tag => tag.length > 0);
+				if (!options.folder && tags.length === 0) {
+					new Notice('移動先のフォルダまたは追加するタグを指定してください');
+					return;
+				}
+				await this.runBulkAction(label, files, async (file) => {
+					if (tags.length > 0) {
+						await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+							const existingTags = this.getFrontmatterList(frontmatter.tags);
+							frontmatter.tags = [...existingTags, ...tags.filter(tag => !existingTags.includes(tag))];
+						});
+					}
+					if (options.folder && file.parent?.path !== options.folder) {
+						const targetPath = `${options.folder}/${file.name}`;
+						if (this.getExistingFile(targetPath)) throw new Error('移動先に同じ名前のファイルがあります');
+						await this.ensureFolder(options.folder);
+						// 名前変更（リンクも更新される）
+						await this.app.fileManager.renameFile(file, targetPath);
+					}
+				});
+				break;
+			}
+			case 'export':
+				await this.exportGyazoNotes(label, files, options.exportPath);
+				break;
+		}
+	}
+
+	// ノートごとに一括操作を実行し、進捗と失敗したノートを表示するメソッド
+	async runBulkAction(title: string, files: TFile[], task: (file: TFile, imageId: string, account: GyazoAccount) => Promise<void>): Promise<BulkActionResult | null> {
+		let result: BulkActionResult | null = null;
+
+		await this.runExclusive(async () => {
+			const modal = new BulkActionProgressModal(this.app, title);
+			modal.open();
+			const current: BulkActionResult = {successCount: 0, failures: [], cancelled: false};
+
+			for (let i = 0; i < files.length; i++) {
+				if (modal.cancelled) {
+					current.cancelled = true;
+					break;
+				}
+
+				const file = files[i];
+				modal.setProgress(i, files.length, `${file.path}（${i + 1}/${files.length}）`);
+				this.setSyncProgress(`${title}（${i + 1}/${files.length}）`);
+				try {
+					// 移動・削除されたノートも処理できるようインデックスから最新のノートを取得
+					const imageId = this.getGyazoIdForNote(file);
+					if (!imageId) throw new Error('Gyazoノートではありません');
+					const account = this.getAccountForNote(file);
+					if (!account) throw new Error(UNKNOWN_ACCOUNT_MESSAGE);
+					await task(this.findNoteByGyazoId(imageId) || file, imageId, account);
+					current.successCount++;
+				} catch (error) {
+					console.error(`一括操作のエラー: ${file.path}`, error);
+					current.failures.push({path: file.path, message: error.message || String(error)});
+				}
+			}
+
+			this.setSyncProgress(null);
+			modal.setProgress(files.length, files.length, '');
+			modal.showResult(current);
+			new Notice(`${title}: ${current.successCount}件成功, ${current.failures.length}件失敗${current.cancelled ? '（中止）' : ''}`);
+			result = current;
+		});
+
+		return result;
+	}
+
+	// ノートの本文を現在のテンプレートで作り直すメソッド（プラグインが管理しないプロパティは保持）
+	async rerenderNote(file: TFile, imageId: string, account: GyazoAccount, bodyTemplate: string) {
+		const synced = await this.getSyncedImage(imageId, file);
+		if (!synced) throw new Error('ノートのフロントマターを読み込めませんでした');
+
+		// ダウンロード済みの画像がある場合はそのまま使用
+		const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+		const attachment: LocalAttachment | null = synced.localPath ? {
+			path: synced.localPath,
+			hash: frontmatter?.local_hash || '',
+			thumbPath: synced.localThumbPath
+		} : null;
+
+		const parts = this.splitNoteContent(await this.app.vault.read(file));
+		const metadata = this.mergeFrontmatter(parts.metadata, this.getMetadataProperties(synced.image, attachment, account), attachment !== null);
+		const body = this.renderTemplate(bodyTemplate, synced.image, attachment);
+		await this.app.vault.modify(file, `---\n${this.serializeFrontmatter(metadata)}---\n\n${body}`);
+	}
+
+	// Gyazoノートの情報をCSVファイルに書き出すメソッド
+	async exportGyazoNotes(title: string, files: TFile[], exportPath: string) {
+		if (!exportPath) {
+			new Notice('書き出し先のファイルを指定してください');
+			return;
+		}
+
+		// 表計算ソフトで数式として解釈されないよう、=, +, -, @などで始まる値の先頭に'を付ける
+		const escapeCsv = (value: string) => {
+			const safeValue = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+			return `"${safeValue.replace(/"/g, '""')}"`;
+		};
+		const rows = [['gyazo_id', 'title', 'app', 'created_at', 'type', 'permalink_url', 'url', 'source_url', 'path', 'ocr'].join(',')];
+		const result = await this.runBulkAction(title, files, async (file, imageId) => {
+			const synced = await this.getSyncedImage(imageId, file);
+			if (!synced) throw new Error('ノートのフロントマターを読み込めませんでした');
+			const image = synced.image;
+			rows.push([
+				image.image_id,
+				image.metadata?.title || '',
+				image.metadata?.app || '',
+				image.created_at,
+				image.type,
+				image.permalink_url,
+				image.url,
+				image.metadata?.url || '',
+				file.path,
+				image.ocr?.description || ''
+			].map(escapeCsv).join(','));
+		});
+		if (!result || result.successCount === 0) return;
+
+		try {
+			await this.ensureParentFolder(exportPath);
+			const content = rows.join('\n') + '\n';
+			const path = this.getAvailableExportPath(exportPath);
+			await this.app.vault.create(path, content);
+			new Notice(`${result.successCount}件のGyazoノートを書き出しました: ${path}`);
+		} catch (error) {
+			console.error('書き出しエラー:', error);
+			new Notice(`書き出しに失敗しました: ${error.message || error}`);
+		}
+	}
+
+	// 書き出し先のファイルがすでにある場合、上書きしないよう番号を付けたパスを取得するメソッド
+	getAvailableExportPath(exportPath: string): string {
+		const dotIndex = exportPath.lastIndexOf('.');
+		const hasExtension = dotIndex > exportPath.lastIndexOf('/');
+		const base = hasExtension ? exportPath.substring(0, dotIndex) : exportPath;
+		const extension = hasExtension ? exportPath.substring(dotIndex) : '';
+		let path = exportPath;
+		for (let count = 1; this.app.vault.getAbstractFileByPath(path); count++) {
+			path = `${base} ${count}${extension}`;
+		}
+		return path;
+	}
+
+	// Gyazo APIで画像をアップロードするメソッド
+	// この端末でログインしている最初のアカウントにアップロードする
+	async uploadGyazoImage(data: ArrayBuffer, fileName: string, metadata: Partial<GyazoUploadMetadata>): Promise<GyazoImage | null> {
+		const account = this.getLoggedInAccount();
+		if (!account) {
+			new Notice('Gyazoにログインしていません。設定画面からログインしてください。');
+			return null;
+		}
+
+		try {
+			const uploaded = await this.getClient(account).uploadImage(data, fileName, metadata);
+			if (!uploaded?.image_id) {
+				console.warn('画像アップロードレスポンスが不正:', uploaded);
+				return null;
+			}
+
+			console.log(`画像アップロード成功: ${uploaded.image_id}`);
+
+			// アップロード結果に入力したメタデータを補完してGyazoImageとして扱う
+			return {
+				image_id: uploaded.image_id,
+				permalink_url: uploaded.permalink_url,
+				thumb_url: uploaded.thumb_url,
+				url: uploaded.url,
+				type: uploaded.type,
+				created_at: uploaded.created_at || new Date().toISOString(),
+				metadata: {
+					app: metadata.app || null,
+					title: metadata.title || null,
+					url: metadata.refererUrl || null,
+					desc: metadata.desc || null
+				}
+			};
+		} catch (error) {
+			console.error('Gyazo APIアップロードエラー:', error);
+			return null;
+		}
+	}
+
+	// アップロードした画像のノートを作成し、エディタに挿入する埋め込みを返すメソッド
+	async finishUpload(image: GyazoImage): Promise<string> {
+		// 詳細情報が取得できればそちらを優先して、アップロードしたアカウントのノートを作成
+		const account = this.getLoggedInAccount() || this.settings.accounts[0];
+		const imageDetail = await this.fetchImageDetail(image.image_id, account);
+		await this.ensureSaveDirectory(account);
+		await this.createOrUpdateNote(imageDetail || image, null, account);
+
+		const title = image.metadata?.title || `Gyazo Image ${image.image_id}`;
+		return `[![${title}](${image.url})](${image.permalink_url})`;
+	}
+
+	// Vault内の画像ファイルをメタデータ入力後にアップロードするメソッド
+	uploadVaultFileWithModal(file: TFile) {
+		new UploadGyazoImageModal(this.app, {title: file.basename}, async (metadata) => {
+			try {
+				new Notice(`${file.name} をGyazoへアップロードしています...`);
+				const data = await this.app.vault.readBinary(file);
+				const image = await this.uploadGyazoImage(data, file.name, metadata);
+				if (!image) {
+					new Notice('画像のアップロードに失敗しました');
+					return;
+				}
+
+				const embed = await this.finishUpload(image);
+
+				// 開いているエディタがあれば埋め込みを挿入
+				const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
+				if (activeView) {
+					activeView.editor.replaceSelection(embed);
+				}
+
+				new Notice(`Gyazoへアップロードしました: ${image.permalink_url}`);
+			} catch (error) {
+				console.error('画像アップロードエラー:', error);
+				new Notice('画像のアップロードに失敗しました');
+			}
+		}).open();
+	}
+
+	// エディタへの貼り付け・ドロップで渡された画像をアップロードするメソッド
+	handleEditorImageTransfer(evt: Event, transfer: DataTransfer | null, editor: Editor) {
+		if (!this.settings.uploadOnPaste || evt.defaultPrevented || !transfer) return;
+
+		const files = Array.from(transfer.files).filter(file => file.type.startsWith('image/'));
+		if (files.length === 0) return;
+
+		// Obsidian標準の添付処理を止めてGyazoへアップロード
+		evt.preventDefault();
+
+		for (const file of files) {
+			const placeholder = `![Gyazoへアップロード中... ${file.name}-${Date.now()}]()`;
+			editor.replaceSelection(placeholder + '\n');
+
+			(async () => {
+				const image = await this.uploadGyazoImage(await file.arrayBuffer(), file.name, {title: file.name, app: 'Obsidian'});
+				const replacement = image ? await this.finishUpload(image) : '';
+				if (!image) {
+					new Notice(`${file.name} のアップロードに失敗しました`);
+				}
+				this.replaceInEditor(editor, placeholder, replacement);
+			})().catch(error => {
+				console.error('画像アップロードエラー:', error);
+				new Notice(`${file.name} のアップロードに失敗しました`);
+				this.replaceInEditor(editor, placeholder, '');
+			});
+		}
+	}
+
+	// エディタ内の文字列を置き換えるメソッド
+	replaceInEditor(editor: Editor, target: string, replacement: string) {
+		const offset = editor.getValue().indexOf(target);
+		if (offset < 0) return;
+		editor.replaceRange(replacement, editor.offsetToPos(offset), editor.offsetToPos(offset + target.length));
+	}
+
+	// 現在のノートのローカル画像埋め込み(![[local.png]])をGyazoへアップロードして置き換えるメソッド
+	async uploadAndReplaceLocalEmbeds(editor: Editor, view: MarkdownView) {
+		const sourcePath = view.file?.path || '';
+		const embedRegex = /!\[\[([^\]|#]+)(?:[|#][^\]]*)?\]\]/g;
+		const targets = new Map<string, TFile>();
+
+		let match: RegExpExecArray | null;
+		while ((match = embedRegex.exec(editor.getValue())) !== null) {
+			const linked = this.app.metadataCache.getFirstLinkpathDest(match[1], sourcePath);
+			if (linked && IMAGE_EXTENSIONS.includes(linked.extension.toLowerCase())) {
+				targets.set(match[0], linked);
+			}
+		}
+
+		if (targets.size === 0) {
+			new Notice('アップロード対象のローカル画像がありません');
+			return;
+		}
+
+		new Notice(`${targets.size}件のローカル画像をGyazoへアップロードしています...`);
+
+		let replacedCount = 0;
+		for (const [embed, file] of targets) {
+			try {
+				const data = await this.app.vault.readBinary(file);
+				const image = await this.uploadGyazoImage(data, file.name, {title: file.basename, app: 'Obsidian'});
+				if (!image) continue;
+
+				const replacement = await this.finishUpload(image);
+				while (editor.getValue().includes(embed)) {
+					this.replaceInEditor(editor, embed, replacement);
+				}
+				replacedCount++;
+			} catch (error) {
+				console.error(`ローカル画像のアップロードエラー: ${file.path}`, error);
+			}
+		}
+
+		new Notice(`${replacedCount}件のローカル画像をGyazoの画像に置き換えました`);
+	}
+
+	// 各アカウントの保存ディレクトリ内の、フロントマターをYAMLとして解析できないGyazoノートを書き直すメソッド
+	async repairGyazoNotes() {
+		const files = this.app.vault.getMarkdownFiles().filter(file => {
+			return this.settings.accounts.some(account => file.path.startsWith(account.saveDirectory + '/'));
+		});
+
+		let repairedCount = 0;
+		for (const file of files) {
+			try {
+				const content = await this.app.vault.read(file);
+				const parts = this.splitNoteContent(content);
+				if (!parts.metadata.includes('gyazo_id:')) continue;
+
+				// 正しく解析できる場合は修復不要
+				try {
+					parseYaml(parts.metadata);
+					continue;
+				} catch (error) {
+					console.log(`フロントマターの解析に失敗: ${file.path}`);
+				}
+
+				const properties = this.parseBrokenFrontmatter(parts.metadata);
+				await this.app.vault.modify(file, `---\n${this.serializeFrontmatter(properties)}---\n\n${parts.body}\n`);
+				repairedCount++;
+			} catch (error) {
+				console.error(`ノート修復エラー: ${file.path}`, error);
+			}
+		}
+
+		new Notice(`Gyazoノートを${repairedCount}件修復しました`);
+	}
+
+	// 旧バージョンが出力した、引用符のないフロントマターを行単位で読み取るメソッド
+	parseBrokenFrontmatter(metadata: string): Record<string, unknown> {
+		const properties: Record<string, unknown> = {};
+		let currentKey: string | null = null;
+
+		for (const line of metadata.split('\n')) {
+			const keyMatch = line.match(/^([a-z][a-z0-9_]*):(?: (.*))?$/);
+			const listMatch = line.match(/^\s+- (.*)$/);
+
+			if (keyMatch) {
+				currentKey = keyMatch[1];
+				properties[currentKey] = keyMatch[2] !== undefined ? keyMatch[2] : [];
+			} else if (listMatch && currentKey && Array.isArray(properties[currentKey])) {
+				// リスト形式の値（カテゴリなど）は引用符を外して読み取る
+				(properties[currentKey] as string[]).push(listMatch[1].replace(/^"(.*)"$/, '$1'));
+			} else if (currentKey && typeof properties[currentKey] === 'string') {
+				// キーのない行は直前の値の続き（複数行の説明など）として扱う
+				properties[currentKey] += `\n${line}`;
+			}
+		}
+
+		// 空のリストとして読み取ったキーは空文字列として扱う
+		for (const [key, value] of Object.entries(properties)) {
+			if (Array.isArray(value) && value.length === 0) properties[key] = '';
+		}
+
+		return properties;
+	}
+
+	// Gyazoブラウザを右サイドバーに開くメソッド
+	async activateBrowserView() {
+		const existingLeaf = this.app.workspace.getLeavesOfType(VIEW_TYPE_GYAZO_BROWSER)[0];
+		if (existingLeaf) {
+			this.app.workspace.revealLeaf(existingLeaf);
+			return;
+		}
+
+		const leaf = this.app.workspace.getRightLeaf(false);
+		if (!leaf) return;
+		await leaf.setViewState({type: VIEW_TYPE_GYAZO_BROWSER, active: true});
+		this.app.workspace.revealLeaf(leaf);
+	}
+
+	// 同期済みのGyazoノートから画像の情報を取得するメソッド（撮影日時の新しい順）
+	async getSyncedImages(): Promise<SyncedGyazoImage[]> {
+		const items: SyncedGyazoImage[] = [];
+
+		for (const [imageId, file] of this.noteIndex) {
+			const item = await this.getSyncedImage(imageId, file);
+			if (item) items.push(item);
+		}
+
+		return items.sort((a, b) => moment(b.image.created_at).valueOf() - moment(a.image.created_at).valueOf());
+	}
+
+	// Gyazoノートのフロントマターと本文から画像の情報を取得するメソッド
+	async getSyncedImage(imageId: string, file: TFile): Promise<SyncedGyazoImage | null> {
+		const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+		if (!frontmatter) return null;
+
+		const body = this.splitNoteContent(await this.app.vault.cachedRead(file)).body;
+		const ocrText = this.extractOcrText(body);
+		const indexed = this.ocrIndex.get(imageId);
+
+		return {
+			file,
+			image: {
+				image_id: imageId,
+				permalink_url: frontmatter.permalink_url || `https://gyazo.com/${imageId}`,
+				thumb_url: frontmatter.thumb_url || '',
+				url: frontmatter.url || '',
+				type: frontmatter.type || '',
+				created_at: frontmatter.created_at || '',
+				metadata: {
+					app: frontmatter.app || null,
+					title: frontmatter.title || null,
+					url: frontmatter.source_url || null,
+					desc: frontmatter.description || null
+				},
+				ocr: ocrText ? {locale: frontmatter.ocr_locale || '', description: ocrText} : (indexed ? {locale: indexed.locale, description: indexed.text} : undefined)
+			},
+			localPath: frontmatter.local_path || null,
+			localThumbPath: frontmatter.local_thumb_path || null
+		};
+	}
+
+	// Gyazo画像の情報をカードとして表示するメソッド
+	async renderGyazoCard(el: HTMLElement, imageId: string) {
+		el.addClass('gyazo-card');
+		el.setText('読み込み中...');
+
+		let item: GyazoCardImage | null = null;
+		try {
+			item = await this.getImageForCard(imageId);
+		} catch (error) {
+			console.error(`カード表示用の画像の情報の取得エラー (${imageId}):`, error);
+		}
+		el.empty();
+
+		if (!item) {
+			el.createEl('a', {text: `https://gyazo.com/${imageId}`, href: `https://gyazo.com/${imageId}`});
+			el.createDiv({cls: 'gyazo-card-meta', text: '画像の情報を取得できませんでした'});
+			return;
+		}
+
+		const {image} = item;
+		const src = this.getPreviewSrc(image, item.localPath, item.localThumbPath, true);
+		const linkEl = el.createEl('a', {href: image.permalink_url});
+		linkEl.createEl('img', {cls: 'gyazo-card-image', attr: {src, loading: 'lazy'}});
+
+		el.createDiv({cls: 'gyazo-card-title', text: image.metadata?.title || `Gyazo Image ${image.image_id}`});
+		const meta = [moment(image.created_at).format('YYYY-MM-DD HH:mm'), image.metadata?.app].filter(Boolean).join(' / ');
+		el.createDiv({cls: 'gyazo-card-meta', text: meta});
+		if (image.metadata?.url) {
+			el.createEl('a', {cls: 'gyazo-card-meta', text: image.metadata.url, href: image.metadata.url});
+		}
+
+		if (image.ocr?.description) {
+			const detailsEl = el.createEl('details');
+			detailsEl.createEl('summary', {text: 'OCRテキスト'});
+			detailsEl.createEl('pre', {cls: 'gyazo-card-ocr', text: image.ocr.description});
+		}
+	}
+
+	// カード表示用の画像の情報を取得するメソッド
+	// APIから取得できない場合（オフラインなど）は、キャッシュまたは同期済みのノートの情報を使用する
+	getImageForCard(imageId: string): Promise<GyazoCardImage | null> {
+		const pending = this.cardRequests.get(imageId);
+		if (pending) return pending;
+
+		const request = (async (): Promise<GyazoCardImage | null> => {
+			const noteFile = this.findNoteByGyazoId(imageId);
+			const synced = noteFile ? await this.getSyncedImage(imageId, noteFile) : null;
+			const cached = this.detailCache[imageId];
+			const account = (noteFile && this.getAccountForNote(noteFile)) || this.getLoggedInAccount() || this.settings.accounts[0];
+
+			let image: GyazoImage | null = null;
+			if (cached && Date.now() - cached.checkedAt < DETAIL_RECHECK_INTERVAL) {
+				image = cached.image;
+			} else {
+				try {
+					image = await this.getClient(account).getImage(imageId);
+					this.setDetailCache(imageId, null, image);
+					await this.saveDetailCache();
+				} catch (error) {
+					console.warn(`カード表示用の画像の取得エラー (${imageId}): ${error.message || error}`);
+					image = cached?.image || synced?.image || null;
+				}
+			}
+
+			if (!image) return null;
+			return {
+				image,
+				localPath: synced?.localPath || null,
+				localThumbPath: synced?.localThumbPath || null
+			};
+		})();
+
+		// 同じ画像のカードが複数ある場合は同じリクエストを共有し、完了後に破棄する
+		this.cardRequests.set(imageId, request);
+		const cleanup = () => {
+			this.cardRequests.delete(imageId);
+		};
+		request.then(cleanup, cleanup);
+		return request;
+	}
+
+	// 画像が検索語に一致するかを判定するメソッド（空白区切りのすべての語を含む場合に一致）
+	// タイトル・アプリ名・参照元URL・OCRテキスト・撮影日を検索対象とする
+	matchesImageQuery(image: GyazoImage, query: string): boolean {
+		const words = query.trim().toLowerCase().split(/\s+/).filter(word => word.length > 0);
+		if (words.length === 0) return true;
+
+		const text = [
+			image.metadata?.title,
+			image.metadata?.app,
+			image.metadata?.url,
+			image.ocr?.description,
+			moment(image.created_at).format('YYYY-MM-DD')
+		].filter(Boolean).join('\n').toLowerCase();
+		// ノートにないOCRテキストも索引から検索
+		return words.every(word => text.includes(word) || this.ocrIndex.search(word).has(image.image_id));
+	}
+
+	// ノートの本文からOCRテキストを取り出すメソッド
+	extractOcrText(body: string): string {
+		const heading = MANAGED_SECTIONS.ocr;
+		const marked = body.match(/<!-- gyazo:ocr -->([\s\S]*?)<!-- \/gyazo:ocr -->/);
+		let section = marked ? marked[1] : '';
+
+		// マーカーのない既存ノートは見出しから次の見出しまでを使用
+		if (!marked && body.includes(heading)) {
+			section = body.substring(body.indexOf(heading)).split(/\n## /)[0];
+		}
+
+		return section.replace(heading, '').trim();
+	}
+
+	// Vault内のすべてのノートからgyazo_idのインデックスを構築するメソッド
+	buildNoteIndex() {
+		this.noteIndex.clear();
+		this.notePathIndex.clear();
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			this.indexNote(file);
+		}
+		console.log(`Gyazoノートのインデックスを構築: ${this.noteIndex.size}件`);
+	}
+
+	// ノートのフロントマターのgyazo_idをインデックスに登録するメソッド
+	indexNote(file: TFile) {
+		if (file.extension !== 'md') return;
+
+		this.unindexNote(file.path);
+		const gyazoId = this.app.metadataCache.getFileCache(file)?.frontmatter?.gyazo_id;
+		if (gyazoId) {
+			this.noteIndex.set(String(gyazoId), file);
+			this.notePathIndex.set(file.path, String(gyazoId));
+		}
+	}
+
+	// ノートをインデックスから削除するメソッド
+	unindexNote(path: string) {
+		const gyazoId = this.notePathIndex.get(path);
+		if (!gyazoId) return;
+
+		this.notePathIndex.delete(path);
+		if (this.noteIndex.get(gyazoId)?.path === path) {
+			this.noteIndex.delete(gyazoId);
+		}
+	}
+
+	// gyazo_idに対応するノートを取得するメソッド
+	findNoteByGyazoId(gyazoId: string): TFile | null {
+		const file = this.noteIndex.get(gyazoId);
+		return file && this.app.vault.getAbstractFileByPath(file.path) === file ? file : null;
+	}
+
+	// ノートのgyazo_idを取得するメソッド
+	getGyazoIdForNote(file: TFile): string | null {
+		const indexed = this.notePathIndex.get(file.path);
+		if (indexed) return indexed;
+
+		const gyazoId = this.app.metadataCache.getFileCache(file)?.frontmatter?.gyazo_id;
+		return gyazoId ? String(gyazoId) : null;
+	}
+
+	// ノートのフロントマターからダウンロード済み画像のパスを取得するメソッド
+	getLocalAttachmentPaths(file: TFile): string[] {
+		const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+		if (!frontmatter) return [];
+
+		const paths: string[] = [];
+		if (typeof frontmatter.local_path === 'string' && frontmatter.local_path) paths.push(frontmatter.local_path);
+		if (typeof frontmatter.local_thumb_path === 'string' && frontmatter.local_thumb_path) paths.push(frontmatter.local_thumb_path);
+		return paths;
+	}
+
+	// ダウンロード済みの画像ファイルを削除するメソッド
+	async deleteLocalAttachments(paths: string[]) {
+		for (const path of paths) {
+			const localFile = this.app.vault.getAbstractFileByPath(path);
+			if (localFile instanceof TFile) {
+				try {
+					await this.app.vault.delete(localFile);
+					console.log(`ダウンロード済み画像を削除: ${path}`);
+				} catch (error) {
+					console.error(`ダウンロード済み画像の削除エラー: ${path}`, error);
+				}
+			}
+		}
+	}
+
+	onunload() {
+		// プラグインがアンロードされたときの処理
+		// タイマーをクリア
+		this.clearFetchTimer();
+		// OCRのワーカーを終了
+		this.resetOcrProvider();
+		// ノートの編集による同期の予約を取り消す
+		this.requestNoteEditSync.cancel();
+	}
+
+	async loadSettings() {
+		const data: LegacySettings | null = await this.loadData();
+		// 旧バージョンの設定は現在の設定に含めず、移行にのみ使用する
+		const {clientId, accessToken, storeTokenLocally, saveDirectory, lastFetchedId, lastFetchTime, fetchInterval, syncFilter, ignoredImageIds, backfillCursor, deleteNotesForDeletedImages, ...currentData} = data || {};
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, currentData);
+		this.settings.routingRules = [...this.settings.routingRules]; // 初期値の配列を変更しないようコピー
+
+		// 旧バージョンの単一アカウントの設定をメインのアカウントに移行
+		if (data && !data.accounts) {
+			const account: GyazoAccount = Object.assign({}, DEFAULT_ACCOUNT, {
+				// 旧バージョンの「Client ID」設定は実際にはアクセストークン
+				accessToken: accessToken ?? clientId ?? DEFAULT_ACCOUNT.accessToken,
+				storeTokenLocally: storeTokenLocally ?? DEFAULT_ACCOUNT.storeTokenLocally,
+				saveDirectory: saveDirectory ?? DEFAULT_ACCOUNT.saveDirectory,
+				lastFetchedId: lastFetchedId ?? DEFAULT_ACCOUNT.lastFetchedId,
+				lastFetchTime: lastFetchTime ?? DEFAULT_ACCOUNT.lastFetchTime,
+				// 時間単位の定期取得間隔は分単位に移行
+				fetchIntervalMinutes: fetchInterval !== undefined ? fetchInterval * 60 : DEFAULT_ACCOUNT.fetchIntervalMinutes,
+				syncFilter: syncFilter ?? DEFAULT_ACCOUNT.syncFilter,
+				ignoredImageIds: ignoredImageIds ?? DEFAULT_ACCOUNT.ignoredImageIds,
+				backfillCursor: backfillCursor ?? DEFAULT_ACCOUNT.backfillCursor
+			});
+			// ローカルストレージに保存したアクセストークンをアカウントごとのキーに移動
+			const localToken = this.app.loadLocalStorage(ACCESS_TOKEN_STORAGE_KEY);
+			if (localToken) {
+				this.app.saveLocalStorage(this.getAccessTokenStorageKey(account), localToken);
+				this.app.saveLocalStorage(ACCESS_TOKEN_STORAGE_KEY, null);
+			}
+			this.settings.accounts = [account];
+		}
+
+		// 新しく追加した設定の初期値を補完し、初期値のオブジェクトを変更しないようコピー
+		this.settings.accounts = this.settings.accounts.map((legacyAccount: LegacyAccount) => {
+			const {fetchInterval, ...account} = legacyAccount;
+			return Object.assign({}, DEFAULT_ACCOUNT, account, {
+				// 旧バージョンの時間単位の定期取得間隔を分単位に移行
+				fetchIntervalMinutes: typeof fetchInterval === 'number' ? fetchInterval * 60 : (account.fetchIntervalMinutes ?? DEFAULT_ACCOUNT.fetchIntervalMinutes),
+				syncFilter: Object.assign({}, DEFAULT_ACCOUNT.syncFilter, account.syncFilter),
+				ignoredImageIds: [...(account.ignoredImageIds || [])],
+				pendingOcr: Object.assign({}, account.pendingOcr)
+			});
+		});
+		if (this.settings.accounts.length === 0) this.settings.accounts = [Object.assign({}, DEFAULT_ACCOUNT)];
+
+		// アクセストークンをこの端末にのみ保存する場合は、同期されるデータに残っているClient Secretもローカルストレージに移動
+		if (this.settings.oauthClientSecret && this.storesCredentialsLocally()) {
+			this.app.saveLocalStorage(CLIENT_SECRET_STORAGE_KEY, this.settings.oauthClientSecret);
+			this.settings.oauthClientSecret = '';
+			await this.saveSettings();
+		}
+
+		// 旧バージョンの「削除された画像のノートも削除する」設定を移行
+		if (data && data.deletedImagePolicy === undefined && deleteNotesForDeletedImages) {
+			this.settings.deletedImagePolicy = 'delete';
+		}
+	}
+
+	// アカウントのGyazo APIのクライアントを取得するメソッド
+	getClient(account: GyazoAccount): GyazoClient {
+		let client = this.clients.get(account.id);
+		if (!client) {
+			client = new GyazoClient(() => this.getAccessToken(account));
+			this.clients.set(account.id, client);
+		}
+		return client;
+	}
+
+	// IDからアカウントを取得するメソッド
+	getAccount(accountId: string): GyazoAccount | null {
+		return this.settings.accounts.find(account => account.id === accountId) || null;
+	}
+
+	// ノートのgyazo_accountからアカウントを取得するメソッド（記録されていないノートはメインのアカウント）
+	// 削除したアカウントなど登録されていないIDが記録されている場合は、別のアカウントの画像として扱わないようnullを返す
+	getAccountForNote(file: TFile): GyazoAccount | null {
+		const accountId = this.app.metadataCache.getFileCache(file)?.frontmatter?.gyazo_account;
+		if (accountId == null || accountId === '') return this.settings.accounts[0];
+		return this.getAccount(String(accountId));
+	}
+
+	// この端末でログインしている最初のアカウントを取得するメソッド（アップロードなどに使用）
+	getLoggedInAccount(): GyazoAccount | null {
+		return this.settings.accounts.find(account => this.getAccessToken(account)) || null;
+	}
+
+	// 通知に表示するアカウント名（アカウントが1つの場合は空）
+	getAccountLabel(account: GyazoAccount): string {
+		return this.settings.accounts.length > 1 ? `[${account.name}] ` : '';
+	}
+
+	// アクセストークンをローカルストレージに保存する場合のキーを取得するメソッド
+	getAccessTokenStorageKey(account: GyazoAccount): string {
+		return `${ACCESS_TOKEN_STORAGE_KEY}:${account.id}`;
+	}
+
+	// アカウントのGyazo APIのアクセストークンを取得するメソッド
+	getAccessToken(account: GyazoAccount): string {
+		if (account.storeTokenLocally) {
+			return this.app.loadLocalStorage(this.getAccessTokenStorageKey(account)) || '';
+		}
+		return account.accessToken;
+	}
+
+	// アカウントのGyazo APIのアクセストークンを保存するメソッド（空の場合はログアウト）
+	async setAccessToken(account: GyazoAccount, token: string) {
+		this.accountUsers.delete(account.id);
+		if (account.storeTokenLocally) {
+			this.app.saveLocalStorage(this.getAccessTokenStorageKey(account), token || null);
+			account.accessToken = '';
+		} else {
+			this.app.saveLocalStorage(this.getAccessTokenStorageKey(account), null);
+			account.accessToken = token;
+		}
+		await this.saveSettings();
+
+		// ログイン・ログアウトに合わせて定期取得を設定し直す
+		this.setupFetchTimer();
+	}
+
+	// アクセストークンの保存先を変更するメソッド
+	async setTokenStorage(account: GyazoAccount, storeLocally: boolean) {
+		const token = this.getAccessToken(account);
+		const clientSecret = this.getClientSecret();
+		account.storeTokenLocally = storeLocally;
+		await this.setAccessToken(account, token);
+		await this.setClientSecret(clientSecret);
+	}
+
+	// 認証情報をこの端末にのみ保存するかどうか（アクセストークンをこの端末にのみ保存するアカウントがある場合）
+	storesCredentialsLocally(): boolean {
+		return this.settings.accounts.some(account => account.storeTokenLocally);
+	}
+
+	// GyazoアプリケーションのClient Secretを取得するメソッド
+	getClientSecret(): string {
+		if (this.storesCredentialsLocally()) {
+			return this.app.loadLocalStorage(CLIENT_SECRET_STORAGE_KEY) || '';
+		}
+		return this.settings.oauthClientSecret;
+	}
+
+	// GyazoアプリケーションのClient Secretを保存するメソッド
+	// アクセストークンをこの端末にのみ保存する場合は、同期されるデータではなくローカルストレージに保存する
+	async setClientSecret(clientSecret: string) {
+		if (this.storesCredentialsLocally()) {
+			this.app.saveLocalStorage(CLIENT_SECRET_STORAGE_KEY, clientSecret || null);
+			this.settings.oauthClientSecret = '';
+		} else {
+			this.app.saveLocalStorage(CLIENT_SECRET_STORAGE_KEY, null);
+			this.settings.oauthClientSecret = clientSecret;
+		}
+		await this.saveSettings();
+	}
+
+	// ブラウザでGyazoの認可画面を開いてOAuthのログインを開始するメソッド
+	startOAuthLogin(account: GyazoAccount) {
+		if (!this.settings.oauthClientId || !this.getClientSecret()) {
+			new Notice('GyazoアプリケーションのClient IDとClient Secretを入力してください');
+			return;
+		}
+
+		const state = Array.from(crypto.getRandomValues(new Uint8Array(16))).map(b => b.toString(16).padStart(2, '0')).join('');
+		this.oauthRequest = {state, accountId: account.id};
+		window.open(this.getClient(account).getAuthorizeUrl(this.settings.oauthClientId, OAUTH_REDIRECT_URI, state));
+	}
+
+	// OAuthのコールバックで受け取った認可コードをアクセストークンに交換するメソッド
+	async handleOAuthCallback(code: string | undefined, state: string | undefined, error: string | undefined) {
+		if (error) {
+			new Notice(`Gyazoへのログインがキャンセルされました: ${error}`);
+			return;
+		}
+		const account = this.oauthRequest ? this.getAccount(this.oauthRequest.accountId) : null;
+		if (!code || !account || state !== this.oauthRequest?.state) {
+			new Notice('Gyazoへのログインに失敗しました。設定画面からもう一度ログインしてください。');
+			return;
+		}
+		this.oauthRequest = null;
+
+		try {
+			const token = await this.getClient(account).exchangeAuthorizationCode(this.settings.oauthClientId, this.getClientSecret(), OAUTH_REDIRECT_URI, code);
+			await this.setAccessToken(account, token);
+
+			const user = await this.validateAccessToken(account);
+			new Notice(user ? `${this.getAccountLabel(account)}Gyazoに${user.name}としてログインしました` : 'Gyazoにログインしましたが、アクセストークンを確認できませんでした');
+		} catch (error) {
+			console.error('Gyazoのログインエラー:', error);
+			new Notice(`Gyazoへのログインに失敗しました: ${error.message || error}`);
+		}
+
+		this.settingTab.display();
+	}
+
+	// アクセストークンが有効かを確認し、ログイン中のユーザーを取得するメソッド（無効な場合はnull）
+	// 確認した結果は設定画面に表示するため、アクセストークンが変わるまで保持する
+	async validateAccessToken(account: GyazoAccount): Promise<GyazoUser | null> {
+		if (!this.getAccessToken(account)) return null;
+
+		let user: GyazoUser | null = null;
+		try {
+			user = await this.getClient(account).getCurrentUser();
+		} catch (error) {
+			console.warn(`アクセストークンの確認エラー: ${error.message || error}`);
+		}
+		this.accountUsers.set(account.id, user);
+		return user;
+	}
+
+	// アカウントからログアウトするメソッド
+	async logOut(account: GyazoAccount) {
+		await this.setAccessToken(account, '');
+		new Notice(`${this.getAccountLabel(account)}Gyazoからログアウトしました`);
+	}
+
+	async saveSettings() {
+		await this.saveData(this.settings);
+	}
+
+	// アカウントごとに定期取得のタイマーを設定するメソッド
+	setupFetchTimer() {
+		// 既存のタイマーをクリア
+		this.clearFetchTimer();
+
+		for (const account of this.settings.accounts) {
+			// 定期取得が無効な場合やこの端末でログインしていない場合は何もしない
+			const nextFetch = this.getAccessToken(account) ? this.getNextFetchTime(account) : null;
+			if (nextFetch === null) {
+				console.log(`${this.getAccountLabel(account)}定期取得は無効です`);
+				continue;
+			}
+
+			console.log(`${this.getAccountLabel(account)}定期取得: ${this.describeFetchSchedule(account)}、次回の取得まで ${Math.round((nextFetch - Date.now()) / (60 * 1000))} 分`);
+			this.nextFetchTimes.set(account.id, nextFetch);
+		}
+
+		// 長いsetTimeoutはスリープ中に遅れるため、短い間隔で予定の時刻を過ぎたかを確認する
+		if (this.nextFetchTimes.size > 0) {
+			this.lastScheduleCheck = Date.now();
+			this.scheduleTimer = window.setInterval(() => this.checkFetchSchedule(), SCHEDULE_CHECK_INTERVAL);
+		}
+
+		this.updateStatusBar();
+	}
+
+	// 定期取得のタイマーをクリアするメソッド
+	clearFetchTimer() {
+		if (this.scheduleTimer !== null) {
+			window.clearInterval(this.scheduleTimer);
+			this.scheduleTimer = null;
+		}
+		this.nextFetchTimes.clear();
+	}
+
+	// アカウントの次回の定期取得の時間を計算するメソッド（定期取得しない場合はnull）
+	getNextFetchTime(account: GyazoAccount): number | null {
+		const now = Date.now();
+
+		// スケジュールが指定されている場合は定期取得間隔より優先
+		if (account.fetchCron) {
+			const schedule = CronSchedule.parse(account.fetchCron);
+			if (!schedule) {
+				console.error(`${this.getAccountLabel(account)}定期取得のスケジュールが正しくありません: ${account.fetchCron}`);
+				return null;
+			}
+			return schedule.next(now);
+		}
+
+		if (account.fetchIntervalMinutes <= 0) return null;
+
+		const interval = account.fetchIntervalMinutes * 60 * 1000; // 分をミリ秒に変換
+		const nextFetch = (account.lastFetchTime || 0) + interval;
+		// 既に時間が過ぎている場合は、次の間隔の開始時間を設定
+		return nextFetch < now ? now + interval : nextFetch;
+	}
+
+	// 定期取得の設定の説明を取得するメソッド
+	describeFetchSchedule(account: GyazoAccount): string {
+		if (account.fetchCron) return `スケジュール「${account.fetchCron}」`;
+		if (account.fetchIntervalMinutes <= 0) return '定期取得なし';
+		return account.fetchIntervalMinutes % 60 === 0 ? `${account.fetchIntervalMinutes / 60}時間ごと` : `${account.fetchIntervalMinutes}分ごと`;
+	}
+
+	// 予定の時刻を過ぎたアカウントの定期取得を実行するメソッド
+	checkFetchSchedule() {
+		const now = Date.now();
+		if (this.lastScheduleCheck > 0 && now - this.lastScheduleCheck > SCHEDULE_CHECK_INTERVAL * 4) {
+			console.log('スリープからの復帰を検知しました。予定を過ぎた定期取得を実行します');
+		}
+		this.lastScheduleCheck = now;
+
+		// 同期の実行中は次の確認まで待つ
+		if (this.syncRunning || this.isPausedInBackground()) return;
+
+		const dueAccounts = this.settings.accounts.filter(account => {
+			const nextFetch = this.nextFetchTimes.get(account.id);
+			return nextFetch !== undefined && nextFetch <= now;
+		});
+		if (dueAccounts.length > 0) this.executeFetchTimer(dueAccounts);
+	}
+
+	// モバイルでアプリがバックグラウンドにあるため定期取得を止めているかを判定するメソッド
+	isPausedInBackground(): boolean {
+		return this.settings.pauseSyncInBackground && Platform.isMobile && document.visibilityState === 'hidden';
+	}
+
+	// アカウントの定期取得を実行するメソッド
+	async executeFetchTimer(accounts: GyazoAccount[]) {
+		console.log(`${accounts.map(account => this.getAccountLabel(account)).join('')}定期取得を実行します`);
+
+		// 画像取得を実行
+		const completed = await this.fetchGyazoImages(this.settings.dryRunSync, accounts);
+		if (!completed) return;
+
+		// 最後の取得時間を更新
+		for (const account of accounts) {
+			account.lastFetchTime = Date.now();
+		}
+		await this.saveSettings();
+
+		// 次回のタイマーを設定
+		this.setupFetchTimer();
+	}
+
+	// 同期を1つずつ実行するメソッド（別の同期を実行中の場合は実行せずにfalseを返す）
+	async runExclusive(task: () => Promise<void>): Promise<boolean> {
+		if (this.syncRunning) {
+			new Notice('Gyazoの同期を実行中です。完了してから再度実行してください。');
+			return false;
+		}
+
+		this.syncRunning = true;
+		try {
+			await task();
+			return true;
+		} finally {
+			this.syncRunning = false;
+		}
+	}
+
+	// 別の同期を実行中の場合は完了を待ってから、他の同期と重ならないように処理を実行するメソッド
+	// プレビューで承認した変更など、破棄できない処理に使用する
+	async runExclusiveWhenIdle(task: () => Promise<void>, waitingMessage?: string) {
+		if (this.syncRunning && waitingMessage) new Notice(waitingMessage);
+		while (this.syncRunning) {
+			await sleep(1000);
+		}
+		await this.runExclusive(task);
+	}
+
+	// dryRunがtrueの場合は変更内容をプレビューし、承認された項目のみ実行する
+	// 別の同期を実行中の場合は実行せずにfalseを返す
+	async fetchGyazoImages(dryRun: boolean = this.settings.dryRunSync, accounts: GyazoAccount[] = this.settings.accounts): Promise<boolean> {
+		// この端末でログインしていないアカウントは対象外
+		const targetAccounts = accounts.filter(account => this.getAccessToken(account));
+		if (targetAccounts.length === 0) {
+			new Notice('Gyazoにログインしていません。設定画面からログインしてください。');
+			return false;
+		}
+
+		const completed = await this.runExclusive(async () => {
+			for (const account of targetAccounts) {
+				await this.fetchAccountImages(account, dryRun);
+			}
+		});
+		this.resolveDeferredConflicts();
+		return completed;
+	}
+
+	// アカウントの画像を取得してノートを同期するメソッド
+	async fetchAccountImages(account: GyazoAccount, dryRun: boolean) {
+		const label = this.getAccountLabel(account);
+		try {
+			// 複数ページの画像を取得するための配列
+			let allImages: GyazoImage[] = [];
+			let currentPage = 1;
+			const perPage = 20;
+			let hasMorePages = true;
+
+			// 設定された最大画像数から必要なページ数を計算
+			const maxImagesToFetch = this.settings.maxImagesToFetch;
+			const maxPages = Math.ceil(maxImagesToFetch / perPage);
+			console.log(`最大${maxImagesToFetch}枚の画像を取得します（最大${maxPages}ページ）`);
+
+
+			while (hasMorePages && currentPage <= maxPages) {
+				console.log(`Gyazo画像取得中: ページ ${currentPage}`);
+				this.setSyncProgress(`${label}${currentPage}/${maxPages}ページ目を取得中`);
+				
+				// Gyazo APIから画像リストを取得
+				const pageImages = (await this.getClient(account).listImages(currentPage, perPage)).images;
+				
+				// 取得した画像を全体の配列に追加
+				allImages = [...allImages, ...pageImages];
+
+				// 次のページがあるかどうかを判断
+				if (pageImages.length < perPage) {
+					hasMorePages = false;
+				} else {
+					currentPage++;
+				}
+
+				// 最後に取得したIDと同じIDの画像が見つかった場合、それ以降は取得済みなのでループを終了
+				if (account.lastFetchedId && !this.settings.forceRefetch) {
+					const foundLastFetchedImage = pageImages.some(img => img.image_id === account.lastFetchedId);
+					if (foundLastFetchedImage) {
+						console.log(`最後に取得した画像ID ${account.lastFetchedId} が見つかりました。ページネーションを終了します。`);
+						hasMorePages = false;
+					}
+				}
+			}
+
+			const images = allImages;
+			if (images.length === 0) {
+				new Notice(`${label}Gyazoに画像がありません。`);
+				return;
+			}
+
+			// デバッグ情報を出力
+			console.log('取得した画像リスト:', images);
+
+			// 保存ディレクトリの確認と作成
+			await this.ensureSaveDirectory(account);
+
+			// 最後に取得したIDより新しい画像のみを処理対象にする（強制再取得の場合はすべて）
+			const lastFetchedId = this.settings.forceRefetch ? '' : account.lastFetchedId;
+			const targetImages: GyazoImage[] = [];
+			for (const image of images) {
+				// 画像IDが存在するか確認
+				if (!image.image_id) {
+					console.error('画像IDが存在しません:', image);
+					continue;
+				}
+
+				// 最後に取得したIDと同じなら、それ以降は処理しない
+				if (lastFetchedId && image.image_id === lastFetchedId) {
+					break;
+				}
+
+				// 絞り込み条件に一致しない画像は詳細を取得せずに除外
+				if (!this.passesSyncFilter(image, false, account)) continue;
+
+				targetImages.push(image);
+			}
+
+			// 一覧のデータで足りない画像のみ詳細を並列で取得し、OCRテキストを含めて絞り込む
+			this.setSyncProgress(`${label}${targetImages.length}枚の画像の詳細を確認中`);
+			const imageDetails = (await this.runWithConcurrency(targetImages, DETAIL_CONCURRENCY, image => this.resolveImageDetail(image, account)))
+				.filter(image => this.passesSyncFilter(image, true, account));
+			await this.saveDetailCache();
+
+			// ノートの編集を保持する場合は、Gyazo側の編集との競合を確認するため、前回の同期以降に編集されたノートの画像は取得範囲外でも最新の詳細を取得する
+			if (this.settings.twoWaySync) {
+				const targetIds = new Set(imageDetails.map(image => image.image_id));
+				const editedIds = this.findLocallyEditedImageIds(account).filter(imageId => !targetIds.has(imageId));
+				const editedImages = await this.runWithConcurrency(editedIds, DETAIL_CONCURRENCY, imageId => this.fetchImageDetail(imageId, account));
+				for (const image of editedImages) {
+					if (image) imageDetails.push(image);
+				}
+			}
+
+			// OCRテキストが届いていない画像を再確認
+			// 端末内のOCRと保留中の記録は承認後に行うため、ここでは以前に認識したテキストのみ補う
+			await this.recheckPendingOcr(imageDetails, account);
+			const ocrImages = imageDetails.map(image => this.withIndexedOcr(image));
+
+			// 実行する操作を計算
+			const plan = await this.buildSyncPlan(ocrImages, images, account);
+
+			if (dryRun) {
+				new SyncPlanModal(this.app, plan, async (approved) => {
+					await this.runExclusiveWhenIdle(() => this.applySyncPlan(approved, plan, images, account), `${label}別の同期の完了後に、承認した変更を実行します`);
+					this.resolveDeferredConflicts();
+				}, `${label}Gyazo同期のプレビュー`).open();
+				return;
+			}
+
+			await this.applySyncPlan(plan.filter(item => item.approved), plan, images, account);
+		} catch (error) {
+			console.error('Gyazo API error:', error);
+			new Notice(`${label}Gyazo APIエラー: ${error.message || error}`);
+			await this.addSyncHistory({
+				timestamp: Date.now(),
+				accountId: account.id,
+				kind: 'sync',
+				created: 0,
+				updated: 0,
+				renamed: 0,
+				deleted: 0,
+				errors: [{imageId: null, message: `Gyazo APIエラー: ${error.message || error}`}]
+			});
+		} finally {
+			this.setSyncProgress(null);
+		}
+	}
+
+	// 画像が同期の絞り込み条件を満たすかを判定するメソッド
+	// checkText=falseの場合は、詳細の取得前に判定できない条件（タイトル・OCRテキスト）を判定しない
+	passesSyncFilter(image: GyazoImage, checkText: boolean, account: GyazoAccount): boolean {
+		const filter = account.syncFilter;
+		const splitList = (value: string) => value.split(',').map(item => item.trim().toLowerCase()).filter(item => item.length > 0);
+
+		if (account.ignoredImageIds.includes(image.image_id)) return false;
+
+		const type = (image.type || '').toLowerCase();
+		if ((filter.skipVideos || this.settings.videoPolicy === 'skip') && VIDEO_TYPES.includes(type)) return false;
+		if (filter.skipGifs && type === 'gif') return false;
+
+		if (filter.minDate && moment(image.created_at).format('YYYY-MM-DD') < filter.minDate) return false;
+
+		const app = (image.metadata?.app || '').toLowerCase();
+		const includeApps = splitList(filter.includeApps);
+		if (includeApps.length > 0 && !includeApps.includes(app)) return false;
+		if (splitList(filter.excludeApps).includes(app)) return false;
+
+		let hostname = '';
+		try {
+			hostname = image.metadata?.url ? new URL(image.metadata.url).hostname.toLowerCase() : '';
+		} catch (error) {
+			hostname = '';
+		}
+		const matchesDomain = (domain: string) => hostname === domain || hostname.endsWith(`.${domain}`);
+		const includeDomains = splitList(filter.includeDomains);
+		if (includeDomains.length > 0 && !includeDomains.some(matchesDomain)) return false;
+		if (hostname && splitList(filter.excludeDomains).some(matchesDomain)) return false;
+
+		if (checkText) {
+			const text = `${image.metadata?.title || ''}\n${image.ocr?.description || ''}`.toLowerCase();
+			const includeKeywords = splitList(filter.includeKeywords);
+			if (includeKeywords.length > 0 && !includeKeywords.some(keyword => text.includes(keyword))) return false;
+			if (splitList(filter.excludeKeywords).some(keyword => text.includes(keyword))) return false;
+		}
+
+		return true;
+	}
+
+	// 画像を同期しない画像のリストに追加するメソッド（既存のノートはそのまま残す）
+	async ignoreImage(imageId: string, account: GyazoAccount) {
+		if (!account.ignoredImageIds.includes(imageId)) {
+			account.ignoredImageIds.push(imageId);
+			await this.saveSettings();
+		}
+		new Notice(`Gyazo画像 ${imageId} を今後同期しません。ノートは削除されないため、不要な場合は手動で削除してください。`);
+	}
+
+	// 同期で実行する操作を計算するメソッド（ノートの作成・更新・削除はまだ行わない）
+	async buildSyncPlan(imageDetails: GyazoImage[], images: GyazoImage[], account: GyazoAccount): Promise<SyncPlanItem[]> {
+		const plan: SyncPlanItem[] = [];
+
+		// 強制再取得オプションが有効な場合、保存ディレクトリ内のアカウントの既存のノートを削除して作り直す
+		const recreatedIds = new Set<string>();
+		if (this.settings.forceRefetch) {
+			for (const [imageId, file] of this.noteIndex) {
+				if (!file.path.startsWith(account.saveDirectory + '/') || this.getAccountForNote(file) !== account) continue;
+				// 削除された画像のノートは作り直せないため対象外
+				if (this.isArchivedNote(file)) continue;
+				plan.push({action: 'delete', imageId, path: file.path, reason: '強制再取得', approved: true});
+				recreatedIds.add(imageId);
+			}
+		}
+
+		for (const image of imageDetails) {
+			// まとめノートのみに書き込む場合は画像ごとのノートを扱わない
+			if (this.settings.aggregationMode !== 'none' && this.settings.aggregateOnly) {
+				plan.push({action: 'aggregate', imageId: image.image_id, path: this.getAggregateNotePath(image.created_at, image.metadata?.app), image, approved: true});
+				continue;
+			}
+
+			const targetPath = this.getNoteFilePath(image, account);
+			const existingFile = recreatedIds.has(image.image_id) ? null : (this.findNoteByGyazoId(image.image_id) || this.getExistingFile(targetPath));
+
+			if (!existingFile) {
+				plan.push({action: 'create', imageId: image.image_id, path: targetPath, image, approved: true});
+				continue;
+			}
+
+			// ノートとGyazoの両方でタイトル・説明が編集されている場合は競合としてどちらの値を使うか確認する
+			// ノートのみで編集されている場合は、更新時にノートの値が保持される（mergeFrontmatter）
+			const existingContent = await this.app.vault.read(existingFile);
+			const localEdit = this.settings.twoWaySync ? this.getLocalMetadataEdit(existingContent, image) : null;
+			if (localEdit?.upstreamChanged) {
+				plan.push({
+					action: 'conflict',
+					imageId: image.image_id,
+					path: existingFile.path,
+					image,
+					localImage: localEdit.localImage,
+					diff: this.createLineDiff(this.formatEditableMetadata(image), this.formatEditableMetadata(localEdit.localImage)),
+					approved: true
+				});
+				continue;
+			}
+
+			// 更新内容に変更がある場合のみ更新する（ダウンロードが有効な場合は画像の確認のため常に更新）
+			const updatedContent = await this.buildUpdatedNoteContent(existingContent, image, null, account);
+			if (updatedContent !== existingContent || this.shouldDownloadAttachment(image)) {
+				plan.push({
+					action: 'update',
+					imageId: image.image_id,
+					path: existingFile.path,
+					image,
+					diff: this.createLineDiff(existingContent, updatedContent),
+					approved: true
+				});
+			}
+
+			// ファイル名がテンプレートと異なる場合は名前変更を提案（ユーザーが変更した可能性があるため初期状態では実行しない）
+			if (existingFile.path !== targetPath && !this.getExistingFile(targetPath)) {
+				plan.push({action: 'rename', imageId: image.image_id, path: targetPath, oldPath: existingFile.path, approved: false});
+			}
+		}
+
+		// 削除された画像の検知
+		if (this.settings.detectDeletedImages) {
+			for (const {imageId, file} of await this.findDeletedImageNotes(images, account)) {
+				if (recreatedIds.has(imageId)) continue;
+
+				const policy = this.settings.deletedImagePolicy;
+				if (policy === 'notify') {
+					// 通知のみの場合はノートに触れない
+					new Notice(`${this.getAccountLabel(account)}Gyazoで削除された画像があります: ${file.path}`);
+				} else {
+					plan.push({action: 'deleted', imageId, path: file.path, reason: DELETED_IMAGE_POLICY_LABELS[policy], approved: true});
+				}
+			}
+		}
+
+		return plan;
+	}
+
+	// 承認された操作を実行するメソッド
+	async applySyncPlan(approved: SyncPlanItem[], plan: SyncPlanItem[], images: GyazoImage[], account: GyazoAccount) {
+		let createdCount = 0;
+		let updatedCount = 0;
+		let renamedCount = 0;
+		let deletedCount = 0;
+		const errors: SyncHistoryEntry['errors'] = [];
+		const label = this.getAccountLabel(account);
+
+		try {
+			this.setSyncProgress(`${label}${approved.length}件の変更を適用中`);
+
+			// 競合はどちらの値を使うかの確認を待つ間に他の同期を止めないよう、同期の完了後に確認する
+			for (const item of approved.filter(item => item.action === 'conflict')) {
+				// 確認を待っている間の同期で同じ画像の競合が見つかった場合は最新のものに置き換える
+				this.deferredConflicts = this.deferredConflicts.filter(conflict => conflict.item.imageId !== item.imageId);
+				this.deferredConflicts.push({item, account});
+			}
+
+			// 削除を先に実行（強制再取得で作り直すノートを含む）
+			for (const item of approved.filter(item => item.action === 'delete')) {
+				const file = this.getExistingFile(item.path);
+				if (!file) continue;
+				try {
+					await this.removeNote(file);
+					deletedCount++;
+					console.log(`ノートを削除: ${item.path}（${item.reason}）`);
+				} catch (error) {
+					console.error(`ファイル削除エラー: ${item.path}`, error);
+					errors.push({imageId: item.imageId, message: `ノートの削除に失敗しました: ${error.message || error}`});
+				}
+			}
+
+			// OCRテキストがない画像は設定に従って補完
+			const noteItems = approved.filter(item => item.action === 'create' || item.action === 'update' || item.action === 'aggregate')
+				.filter((item): item is SyncPlanItem & {image: GyazoImage} => item.image !== undefined);
+			const ocrImages = await this.fillMissingOcr(noteItems.map(item => item.image), account);
+
+			// 画像ごとにノートを作成または更新
+			const aggregateEntries: {image: GyazoImage, attachment: LocalAttachment | null}[] = [];
+			for (const item of noteItems.map((item, index) => ({...item, image: ocrImages[index]}))) {
+				console.log('処理中の画像ID:', item.imageId);
+
+				// ローカル保存が有効な場合は画像をVault内にダウンロード
+				const attachment = this.shouldDownloadAttachment(item.image) ? await this.downloadImageAttachment(item.image) : null;
+				aggregateEntries.push({image: item.image, attachment});
+				if (item.action === 'aggregate') continue;
+
+				// ノートを作成または更新
+				try {
+					const result = await this.createOrUpdateNote(item.image, attachment, account);
+					if (result === 'created') createdCount++;
+					if (result === 'updated') updatedCount++;
+				} catch (error) {
+					console.error(`ノート作成エラー: ${item.path}`, error);
+					errors.push({imageId: item.imageId, message: `ノートの作成に失敗しました: ${error.message || error}`});
+				}
+			}
+
+			// まとめノートを更新
+			const aggregatedCount = await this.updateAggregateNotes(aggregateEntries);
+
+			// 名前変更（リンクも更新される）
+			for (const item of approved.filter(item => item.action === 'rename')) {
+				const file = item.oldPath ? this.getExistingFile(item.oldPath) : null;
+				if (!file || this.getExistingFile(item.path)) continue;
+				try {
+					await this.ensureParentFolder(item.path);
+					await this.app.fileManager.renameFile(file, item.path);
+					renamedCount++;
+				} catch (error) {
+					console.error(`ノートの名前変更エラー: ${item.oldPath} -> ${item.path}`, error);
+					errors.push({imageId: item.imageId, message: `ノートの名前変更に失敗しました: ${error.message || error}`});
+				}
+			}
+
+			// Gyazoで削除された画像のノートを設定に従って処理
+			for (const item of approved.filter(item => item.action === 'deleted')) {
+				const file = this.getExistingFile(item.path);
+				if (!file) continue;
+				try {
+					await this.applyDeletedImagePolicy(file);
+					deletedCount++;
+				} catch (error) {
+					console.error(`削除された画像のノートの処理エラー: ${item.path}`, error);
+					errors.push({imageId: item.imageId, message: `削除された画像のノートの処理に失敗しました: ${error.message || error}`});
+				}
+			}
+
+			// 最後に取得したIDと時間を保存
+			// 作成・更新を除外した画像がある場合は次回も対象とするため、最後に取得したIDは更新しない
+			const excludedSync = plan.some(item => (item.action === 'create' || item.action === 'update' || item.action === 'aggregate') && !approved.includes(item));
+			if (images.length > 0 && images[0].image_id) {
+				if (!excludedSync) account.lastFetchedId = images[0].image_id;
+				account.lastFetchTime = Date.now();
+				await this.saveSettings();
+			}
+
+			const aggregatedMessage = this.settings.aggregationMode !== 'none' ? `, まとめノート${aggregatedCount}件更新` : '';
+			const errorMessage = errors.length > 0 ? `, ${errors.length}件のエラー` : '';
+			new Notice(`${label}Gyazo画像処理完了: ${createdCount}件作成, ${updatedCount}件更新, ${renamedCount}件名前変更, ${deletedCount}件削除${aggregatedMessage}${errorMessage}`);
+		} catch (error) {
+			console.error('Gyazo同期エラー:', error);
+			new Notice(`Gyazo同期エラー: ${error.message || error}`);
+			errors.push({imageId: null, message: `Gyazo同期エラー: ${error.message || error}`});
+		} finally {
+			this.setSyncProgress(null);
+		}
+
+		await this.addSyncHistory({
+			timestamp: Date.now(),
+			accountId: account.id,
+			kind: 'sync',
+			created: createdCount,
+			updated: updatedCount,
+			renamed: renamedCount,
+			deleted: deletedCount,
+			errors
+		});
+	}
+
+	// ノートで編集されたタイトル・説明を検出するメソッド
+	// 前回の同期以降に編集されていない（またはGyazoと同じ値の）場合はnullを返す
+	getLocalMetadataEdit(existingContent: string, image: GyazoImage): {localImage: GyazoImage, upstreamChanged: boolean} | null {
+		let frontmatter: Record<string, unknown>;
+		try {
+			frontmatter = parseYaml(this.splitNoteContent(existingContent).metadata) || {};
+		} catch (error) {
+			return null;
+		}
+
+		// 前回同期した値のハッシュがないノートは判定できないため対象外
+		const syncedHash = frontmatter.gyazo_synced_hash;
+		if (typeof syncedHash !== 'string') return null;
+
+		const localTitle = frontmatter.title == null ? '' : String(frontmatter.title);
+		const localDesc = frontmatter.description == null ? '' : String(frontmatter.description);
+		const localHash = this.getEditableMetadataHash(localTitle, localDesc);
+		const upstreamHash = this.getEditableMetadataHash(image.metadata?.title || '', image.metadata?.desc || '');
+		if (localHash === syncedHash || localHash === upstreamHash) return null;
+
+		return {
+			localImage: {
+				...image,
+				metadata: {
+					app: image.metadata?.app || null,
+					url: image.metadata?.url || null,
+					title: localTitle || null,
+					desc: localDesc || null
+				}
+			},
+			upstreamChanged: upstreamHash !== syncedHash
+		};
+	}
+
+	// アカウントのノートのうち、前回の同期以降にタイトル・説明が編集された画像のIDを取得するメソッド
+	// 以前から保持しているノートの編集を毎回確認しないよう、前回の同期以降に更新されたノートのみを対象にする
+	findLocallyEditedImageIds(account: GyazoAccount): string[] {
+		const imageIds: string[] = [];
+		for (const [imageId, file] of this.noteIndex) {
+			if (this.getAccountForNote(file) !== account || file.stat.mtime <= (account.lastFetchTime || 0)) continue;
+
+			if (this.isMetadataEditedLocally(file)) imageIds.push(imageId);
+		}
+		return imageIds;
+	}
+
+	// ノートのタイトル・説明が前回の同期以降に編集されたかを判定するメソッド
+	isMetadataEditedLocally(file: TFile): boolean {
+		const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+		if (typeof frontmatter?.gyazo_synced_hash !== 'string') return false;
+
+		const title = frontmatter.title == null ? '' : String(frontmatter.title);
+		const desc = frontmatter.description == null ? '' : String(frontmatter.description);
+		return this.getEditableMetadataHash(title, desc) !== frontmatter.gyazo_synced_hash;
+	}
+
+	// Gyazoノートのタイトル・説明の編集を検知して同期を予約するメソッド
+	// 同期で書き込んだ変更は前回同期した値と一致するため対象にならない
+	handleNoteEdit(file: TFile) {
+		if (!this.settings.syncOnNoteEdit || !this.settings.twoWaySync) return;
+		if (!this.notePathIndex.has(file.path) || !this.isMetadataEditedLocally(file)) return;
+
+		const account = this.getAccountForNote(file);
+		if (!account) return;
+		this.editedAccountIds.add(account.id);
+		this.requestNoteEditSync();
+	}
+
+	// 編集が止まってから、編集したノートのアカウントを同期するメソッド
+	requestNoteEditSync = debounce(() => {
+		// 別の同期を実行中の場合は完了後にもう一度予約する
+		if (this.syncRunning) {
+			this.requestNoteEditSync();
+			return;
+		}
+
+		const accounts = this.settings.accounts.filter(account => this.editedAccountIds.has(account.id) && this.getAccessToken(account));
+		this.editedAccountIds.clear();
+		if (accounts.length > 0) this.executeFetchTimer(accounts);
+	}, NOTE_EDIT_SYNC_DELAY, true);
+
+	// タイトル・説明のハッシュを計算するメソッド（前回の同期以降に編集されたかの判定に使用）
+	getEditableMetadataHash(title: string, desc: string): string {
+		const text = `${title}\n${desc}`;
+		let hash = 0x811c9dc5;
+		for (let i = 0; i < text.length; i++) {
+			hash ^= text.charCodeAt(i);
+			hash = Math.imul(hash, 0x01000193);
+		}
+		return (hash >>> 0).toString(16).padStart(8, '0');
+	}
+
+	// 差分の表示用にタイトル・説明を整形するメソッド
+	formatEditableMetadata(image: GyazoImage): string {
+		return `title: ${image.metadata?.title || ''}\ndescription: ${image.metadata?.desc || ''}`;
+	}
+
+	// 競合の解決方法をノートに反映する準備をし、ノートの更新に使用する画像の情報を取得するメソッド
+	// GyazoのAPIではタイトル・説明を更新できないため、ノートの値を選んだ場合はGyazoの現在の値を同期済みとして記録し、
+	// 以降の同期でノートの値を保持する（Gyazoの値を選んだ場合はそのままノートを更新する）
+	async applyMetadataChoice(item: SyncPlanItem, choice: 'local' | 'remote'): Promise<GyazoImage | null> {
+		if (!item.image) return null;
+
+		if (choice === 'local') {
+			const file = this.findNoteByGyazoId(item.imageId);
+			if (!file) return null;
+			const upstreamHash = this.getEditableMetadataHash(item.image.metadata?.title || '', item.image.metadata?.desc || '');
+			await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+				frontmatter.gyazo_synced_hash = upstreamHash;
+			});
+		}
+		return item.image;
+	}
+
+	// 同期の完了後に、タイトル・説明の競合の解決方法を確認して反映するメソッド
+	// 確認は同期の実行中の状態を解除してから行い、反映する間のみ他の同期と重ならないようにする
+	async resolveDeferredConflicts() {
+		if (this.resolvingConflicts) return;
+		this.resolvingConflicts = true;
+
+		try {
+			let conflict: {item: SyncPlanItem, account: GyazoAccount} | undefined;
+			while ((conflict = this.deferredConflicts.shift())) {
+				const {item, account} = conflict;
+				const choice = await this.resolveMetadataConflict(item);
+				if (!choice) continue;
+
+				// 別の同期を実行中の場合は完了を待って反映
+				await this.runExclusiveWhenIdle(async () => {
+					let updatedCount = 0;
+					const errors: SyncHistoryEntry['errors'] = [];
+					try {
+						const image = await this.applyMetadataChoice(item, choice);
+						if (image) {
+							const attachment = this.shouldDownloadAttachment(image) ? await this.downloadImageAttachment(image) : null;
+							const result = await this.createOrUpdateNote(image, attachment, account);
+							if (result === 'updated') updatedCount++;
+						}
+					} catch (error) {
+						console.error(`競合の反映エラー: ${item.imageId}`, error);
+						errors.push({imageId: item.imageId, message: `競合の解決結果を反映できませんでした: ${error.message || error}`});
+					}
+					await this.addSyncHistory({
+						timestamp: Date.now(),
+						accountId: account.id,
+						kind: 'sync',
+						created: 0,
+						updated: updatedCount,
+						renamed: 0,
+						deleted: 0,
+						errors
+					});
+				});
+			}
+		} finally {
+			this.resolvingConflicts = false;
+		}
+	}
+
+	// 競合の解決方法を選択するモーダルを表示するメソッド
+	resolveMetadataConflict(item: SyncPlanItem): Promise<'local' | 'remote' | null> {
+		return new Promise(resolve => {
+			new MetadataConflictModal(this.app, item, resolve).open();
+		});
+	}
+
+	// 強制再取得や画像の削除で不要になったノートを削除するメソッド
+	// 完全に削除する設定でない限り、書き込んだ内容を失わないようゴミ箱へ移動する
+	async removeNote(file: TFile) {
+		if (this.settings.deletedImagePolicy === 'delete') {
+			await this.app.vault.delete(file);
+		} else {
+			await this.app.vault.trash(file, this.settings.deletedImagePolicy === 'system-trash');
+		}
+	}
+
+	// Gyazoで削除された画像のノートを設定に従って処理するメソッド
+	async applyDeletedImagePolicy(file: TFile) {
+		switch (this.settings.deletedImagePolicy) {
+			case 'notify':
+				new Notice(`Gyazoで削除された画像があります: ${file.path}`);
+				break;
+			case 'mark':
+				await this.markNoteAsDeleted(file);
+				break;
+			case 'archive': {
+				await this.markNoteAsDeleted(file);
+				const archivePath = `${this.settings.archiveDirectory}/${file.name}`;
+				if (file.path !== archivePath && !this.getExistingFile(archivePath)) {
+					await this.ensureFolder(this.settings.archiveDirectory);
+					await this.app.fileManager.renameFile(file, archivePath);
+				}
+				break;
+			}
+			case 'obsidian-trash':
+				await this.app.vault.trash(file, false);
+				break;
+			case 'system-trash':
+				await this.app.vault.trash(file, true);
+				break;
+			case 'delete':
+				await this.app.vault.delete(file);
+				break;
+		}
+		console.log(`削除された画像のノートを処理: ${file.path}（${DELETED_IMAGE_POLICY_LABELS[this.settings.deletedImagePolicy]}）`);
+	}
+
+	// ノートにgyazo_status: deletedを付与するメソッド
+	async markNoteAsDeleted(file: TFile) {
+		await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+			frontmatter.gyazo_status = 'deleted';
+		});
+	}
+
+	// 削除された画像として処理済みのノート（gyazo_status: deletedまたはアーカイブディレクトリ内）かを判定するメソッド
+	isArchivedNote(file: TFile): boolean {
+		return this.app.metadataCache.getFileCache(file)?.frontmatter?.gyazo_status === 'deleted'
+			|| file.path.startsWith(this.settings.archiveDirectory + '/');
+	}
+
+	// アーカイブしたノートの画像がGyazoに存在する場合、ノートを元の場所に戻して最新の情報で更新するメソッド
+	async restoreArchivedNote(file: TFile) {
+		const imageId = this.getGyazoIdForNote(file);
+		if (!imageId) {
+			new Notice('このノートはGyazoノートではありません');
+			return;
+		}
+
+		const account = this.getAccountForNote(file);
+		if (!account) {
+			new Notice(UNKNOWN_ACCOUNT_MESSAGE);
+			return;
+		}
+
+		try {
+			const image = await this.getClient(account).getImage(imageId);
+
+			// アーカイブディレクトリにある場合は元の場所へ移動
+			if (file.path.startsWith(this.settings.archiveDirectory + '/')) {
+				const targetPath = this.getNoteFilePath(image, account);
+				if (!this.getExistingFile(targetPath)) {
+					await this.ensureParentFolder(targetPath);
+					await this.app.fileManager.renameFile(file, targetPath);
+				}
+			}
+
+			// gyazo_statusはプラグインが管理するキーのため、更新時に取り除かれる
+			const attachment = this.shouldDownloadAttachment(image) ? await this.downloadImageAttachment(image) : null;
+			await this.createOrUpdateNote(image, attachment, account);
+			new Notice(`Gyazo画像 ${imageId} のノートを復元しました`);
+		} catch (error) {
+			if (error instanceof GyazoNotFoundError) {
+				new Notice(`Gyazo画像 ${imageId} はGyazoに存在しません`);
+				return;
+			}
+			console.error('ノート復元エラー:', error);
+			new Notice('ノートの復元に失敗しました');
+		}
+	}
+
+	// 2つのテキストの行単位の差分を作成するメソッド（変更のない行は省略）
+	createLineDiff(oldText: string, newText: string): string {
+		const oldLines = oldText.split('\n');
+		const newLines = newText.split('\n');
+
+		// 最長共通部分列の長さを後ろから計算
+		const lcs: number[][] = Array.from({length: oldLines.length + 1}, () => new Array(newLines.length + 1).fill(0));
+		for (let i = oldLines.length - 1; i >= 0; i--) {
+			for (let j = newLines.length - 1; j >= 0; j--) {
+				lcs[i][j] = oldLines[i] === newLines[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+			}
+		}
+
+		const diff: string[] = [];
+		let i = 0;
+		let j = 0;
+		while (i < oldLines.length || j < newLines.length) {
+			if (i < oldLines.length && j < newLines.length && oldLines[i] === newLines[j]) {
+				i++;
+				j++;
+			} else if (j < newLines.length && (i >= oldLines.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+				diff.push(`+ ${newLines[j++]}`);
+			} else {
+				diff.push(`- ${oldLines[i++]}`);
+			}
+		}
+		return diff.join('\n');
+	}
+
+	// ログインしているすべてのアカウントのGyazoライブラリを取得してノートを作成するメソッド
+	// 進捗はアカウントごとに設定に保存され、再起動や失敗の後も続きから再開できる
+	async importEntireLibrary() {
+		const accounts = this.settings.accounts.filter(account => this.getAccessToken(account));
+		if (accounts.length === 0) {
+			new Notice('Gyazoにログインしていません。設定画面からログインしてください。');
+			return;
+		}
+
+		// 実行中の場合は進捗を表示するのみ
+		if (this.backfillModal) {
+			this.backfillModal.open();
+			return;
+		}
+
+		await this.runExclusive(async () => {
+			const modal = new BackfillProgressModal(this.app);
+			this.backfillModal = modal;
+			modal.open();
+
+			try {
+				for (const account of accounts) {
+					if (modal.cancelled) break;
+					await this.importAccountLibrary(account, modal);
+				}
+			} finally {
+				this.backfillModal = null;
+				modal.close();
+			}
+		});
+	}
+
+	// アカウントのGyazoライブラリのすべてのページを取得してノートを作成するメソッド
+	async importAccountLibrary(account: GyazoAccount, modal: BackfillProgressModal) {
+		const label = this.getAccountLabel(account);
+		const cursor: BackfillCursor = account.backfillCursor || {page: 1, processedCount: 0, totalCount: 0};
+		// 中断したページは再開時にもう一度処理するため、ページの開始時点の処理済み数を保存する
+		let pageStartCount = cursor.processedCount;
+		if (cursor.page > 1) {
+			new Notice(`${label}前回の続き（${cursor.page}ページ目）からインポートを再開します`);
+		}
+
+		let createdCount = 0;
+		let updatedCount = 0;
+		const errors: SyncHistoryEntry['errors'] = [];
+
+		try {
+			await this.ensureSaveDirectory(account);
+
+			let hasMorePages = true;
+			while (hasMorePages && !modal.cancelled) {
+				pageStartCount = cursor.processedCount;
+				modal.setProgress(cursor.processedCount, cursor.totalCount, `${label}${cursor.page}ページ目を取得中...（${cursor.processedCount}枚処理済み）`);
+				this.setSyncProgress(`${label}インポート中（${cursor.page}ページ目、${cursor.processedCount}枚処理済み）`);
+
+				const page = await this.getClient(account).listImages(cursor.page, BACKFILL_PER_PAGE, modal.abortController.signal);
+				const pageImages = page.images;
+				if (page.totalCount > 0) cursor.totalCount = page.totalCount;
+
+				// 一覧のデータで足りない画像のみ詳細を並列で取得
+				const targetImages = pageImages.filter(image => image.image_id && this.passesSyncFilter(image, false, account));
+				const imageDetails = (await this.runWithConcurrency(targetImages, DETAIL_CONCURRENCY, image => this.resolveImageDetail(image, account, modal.abortController.signal)))
+					.filter(image => this.passesSyncFilter(image, true, account));
+				await this.saveDetailCache();
+				cursor.processedCount += pageImages.length - imageDetails.length;
+
+				const aggregateEntries: {image: GyazoImage, attachment: LocalAttachment | null}[] = [];
+				for (const imageDetail of imageDetails) {
+					// 一時停止中は再開か中止されるまで待機
+					while (modal.paused && !modal.cancelled) {
+						await sleep(500);
+					}
+					if (modal.cancelled) break;
+
+					try {
+						const attachment = this.shouldDownloadAttachment(imageDetail) ? await this.downloadImageAttachment(imageDetail) : null;
+						aggregateEntries.push({image: imageDetail, attachment});
+						if (this.settings.aggregationMode === 'none' || !this.settings.aggregateOnly) {
+							const result = await this.createOrUpdateNote(imageDetail, attachment, account);
+							if (result === 'created') createdCount++;
+							if (result === 'updated') updatedCount++;
+						}
+					} catch (error) {
+						if (error instanceof GyazoCancelledError) throw error;
+						console.error(`ノート作成エラー: ${imageDetail.image_id}`, error);
+						errors.push({imageId: imageDetail.image_id, message: `ノートの作成に失敗しました: ${error.message || error}`});
+					}
+
+					cursor.processedCount++;
+					modal.setProgress(cursor.processedCount, cursor.totalCount, `${label}${cursor.page}ページ目を処理中...（${cursor.processedCount}枚処理済み）`);
+				}
+				await this.updateAggregateNotes(aggregateEntries);
+
+				if (modal.cancelled) break;
+
+				// ページの処理が完了したら再開位置を保存
+				hasMorePages = pageImages.length >= BACKFILL_PER_PAGE;
+				cursor.page++;
+				pageStartCount = cursor.processedCount;
+				account.backfillCursor = hasMorePages ? cursor : null;
+				await this.saveSettings();
+			}
+
+			if (modal.cancelled) {
+				cursor.processedCount = pageStartCount;
+				account.backfillCursor = cursor.page > 1 ? cursor : null;
+				await this.saveSettings();
+				new Notice(`${label}インポートを中止しました（${createdCount}件作成, ${updatedCount}件更新）。次回は${cursor.page}ページ目から再開します。`);
+			} else {
+				new Notice(`${label}Gyazoライブラリのインポート完了: ${createdCount}件作成, ${updatedCount}件更新`);
+			}
+		} catch (error) {
+			cursor.processedCount = pageStartCount;
+			if (error instanceof GyazoCancelledError) {
+				new Notice(`${label}インポートを中止しました（${createdCount}件作成, ${updatedCount}件更新）。次回は${cursor.page}ページ目から再開します。`);
+				return;
+			}
+			console.error('ライブラリのインポートエラー:', error);
+			account.backfillCursor = cursor;
+			await this.saveSettings();
+			new Notice(`${label}インポートに失敗しました: ${error.message || error}。次回は${cursor.page}ページ目から再開します。`);
+			errors.push({imageId: null, message: `${cursor.page}ページ目のインポートに失敗しました: ${error.message || error}`});
+		} finally {
+			this.setSyncProgress(null);
+			await this.addSyncHistory({
+				timestamp: Date.now(),
+				accountId: account.id,
+				kind: 'import',
+				created: createdCount,
+				updated: updatedCount,
+				renamed: 0,
+				deleted: 0,
+				errors
+			});
+		}
+	}
+
+	// Gyazoで削除された画像のノートを検知するメソッド
+	// 現在の画像リストにないノートについて画像の詳細を確認し、404が返されたもののみを返す
+	async findDeletedImageNotes(currentImages: GyazoImage[], account: GyazoAccount): Promise<{imageId: string, file: TFile}[]> {
+		const deletedNotes: {imageId: string, file: TFile}[] = [];
+
+		try {
+			// 現在のGyazo画像IDリストを作成
+			const currentImageIds = new Set<string>();
+			for (const image of currentImages) {
+				if (image.image_id) {
+					currentImageIds.add(image.image_id);
+				}
+			}
+
+			console.log(`現在のGyazo画像数: ${currentImageIds.size}枚`);
+
+			console.log(`Gyazoノート数: ${this.noteIndex.size}件`);
+
+			// まず、現在の画像リストに存在しないアカウントのノートをインデックスから検出
+			const potentiallyDeletedImages: {imageId: string, file: TFile}[] = [];
+			// 削除された画像として処理済みのノートは確認しない
+			for (const [imageId, file] of this.noteIndex) {
+				if (!currentImageIds.has(imageId) && this.getAccountForNote(file) === account && !this.isArchivedNote(file)) {
+					// 可能性のある削除画像として記録
+					potentiallyDeletedImages.push({imageId, file});
+				}
+			}
+
+			console.log(`可能性のある削除画像: ${potentiallyDeletedImages.length}件`);
+
+			// 可能性のある削除画像ごとに、実際に削除されたかを並列で確認
+			// 404が返された場合のみ削除されたと判断し、ネットワークエラーなどの場合はノートに触れない
+			// 画像の詳細のキャッシュで最近存在を確認した画像は確認せず、それ以外もETagで変更がなければキャッシュを更新するだけにする
+			await this.runWithConcurrency(potentiallyDeletedImages, DETAIL_CONCURRENCY, async (item) => {
+				const cached = this.detailCache[item.imageId];
+				if (cached && Date.now() - cached.checkedAt < DETAIL_RECHECK_INTERVAL) return;
+
+				try {
+					const result = await this.getClient(account).getImageIfChanged(item.imageId, cached?.etag || null);
+					const image = result.image || cached?.image;
+					if (image) {
+						this.setDetailCache(item.imageId, result.etag, image);
+					}
+
+					// 画像が存在する場合は、ページネーションの制限で取得できなかっただけ
+					console.log(`画像は存在しますが、ページネーションの制限で取得されませんでした: ${item.imageId}`);
+				} catch (error) {
+					if (error instanceof GyazoNotFoundError) {
+						console.log(`削除された画像を確認: ${item.imageId}, ノート: ${item.file.path}`);
+						deletedNotes.push(item);
+					} else {
+						console.error(`画像確認エラー (${item.imageId}): ${error.message || error}`);
+					}
+				}
+			});
+		} catch (error) {
+			console.error('削除画像検知エラー:', error);
+		}
+
+		return deletedNotes;
+	}
+
+	// ノートからGyazo IDを抽出するメソッド
+	extractGyazoIdFromNote(content: string): string | null {
+		const match = content.match(/gyazo_id:\s*([a-zA-Z0-9]+)/);
+		return match ? match[1] : null;
+	}
+
+	// 同期に使用する画像のデータを取得するメソッド
+	// 一覧のデータにメタデータとOCRテキストが揃っていれば詳細は取得せず、
+	// 足りない場合もキャッシュのETagで変更がないことを確認できればキャッシュを使用する
+	async resolveImageDetail(image: GyazoImage, account: GyazoAccount, signal?: AbortSignal): Promise<GyazoImage> {
+		if (image.metadata && image.ocr?.description) {
+			return image;
+		}
+
+		const cached = this.detailCache[image.image_id];
+		if (cached && Date.now() - cached.checkedAt < DETAIL_RECHECK_INTERVAL) {
+			return this.mergeCachedDetail(image, cached.image);
+		}
+
+		try {
+			const result = await this.getClient(account).getImageIfChanged(image.image_id, cached?.etag || null, signal);
+			const detail = result.image || (cached ? this.mergeCachedDetail(image, cached.image) : image);
+			this.setDetailCache(image.image_id, result.etag, detail);
+			return detail;
+		} catch (error) {
+			if (error instanceof GyazoCancelledError) throw error;
+			console.error(`画像詳細の取得エラー (${image.image_id}): ${error.message || error}`);
+			return cached ? this.mergeCachedDetail(image, cached.image) : image;
+		}
+	}
+
+	// 一覧の最新のデータにキャッシュした詳細の足りない項目を補うメソッド
+	// タイトル・説明などは一覧の値を優先し、一覧にないメタデータとOCRテキストのみキャッシュから使用する
+	mergeCachedDetail(image: GyazoImage, cachedImage: GyazoImage): GyazoImage {
+		return {
+			...cachedImage,
+			...image,
+			metadata: image.metadata || cachedImage.metadata,
+			ocr: image.ocr?.description ? image.ocr : cachedImage.ocr
+		};
+	}
+
+	// 最大同時実行数を制限して非同期処理を実行するメソッド（結果は入力と同じ順序）
+	async runWithConcurrency<T, R>(items: T[], limit: number, task: (item: T) => Promise<R>): Promise<R[]> {
+		const results: R[] = new Array(items.length);
+		let nextIndex = 0;
+
+		const worker = async () => {
+			while (nextIndex < items.length) {
+				const index = nextIndex++;
+				results[index] = await task(items[index]);
+			}
+		};
+
+		await Promise.all(Array.from({length: Math.min(limit, items.length)}, () => worker()));
+		return results;
+	}
+
+	// 画像の詳細をキャッシュに保存するメソッド（以前に取得した動画・GIFのファイルの情報は引き継ぐ）
+	setDetailCache(imageId: string, etag: string | null, image: GyazoImage) {
+		const mediaInfo = this.detailCache[imageId]?.mediaInfo;
+		this.detailCache[imageId] = {etag, checkedAt: Date.now(), image, mediaInfo};
+		this.detailCacheDirty = true;
+	}
+
+	// 画像の詳細のキャッシュを読み込むメソッド
+	async loadDetailCache() {
+		const path = `${this.manifest.dir}/${DETAIL_CACHE_FILE}`;
+		try {
+			if (await this.app.vault.adapter.exists(path)) {
+				this.detailCache = JSON.parse(await this.app.vault.adapter.read(path));
+			}
+		} catch (error) {
+			console.error('画像詳細のキャッシュの読み込みエラー:', error);
+			this.detailCache = {};
+		}
+	}
+
+	// 画像の詳細のキャッシュを保存するメソッド
+	async saveDetailCache() {
+		if (!this.detailCacheDirty) return;
+
+		try {
+			await this.app.vault.adapter.write(`${this.manifest.dir}/${DETAIL_CACHE_FILE}`, JSON.stringify(this.detailCache));
+			this.detailCacheDirty = false;
+		} catch (error) {
+			console.error('画像詳細のキャッシュの保存エラー:', error);
+		}
+	}
+
+	// OCRテキストの索引を読み込むメソッド
+	async loadOcrIndex() {
+		const path = `${this.manifest.dir}/${OCR_INDEX_FILE}`;
+		try {
+			if (await this.app.vault.adapter.exists(path)) {
+				this.ocrIndex.load(JSON.parse(await this.app.vault.adapter.read(path)));
+			}
+		} catch (error) {
+			console.error('OCRテキストの索引の読み込みエラー:', error);
+			this.ocrIndex.load({});
+		}
+	}
+
+	// OCRテキストの索引を保存するメソッド
+	async saveOcrIndex() {
+		if (!this.ocrIndex.dirty) return;
+
+		try {
+			await this.app.vault.adapter.write(`${this.manifest.dir}/${OCR_INDEX_FILE}`, JSON.stringify(this.ocrIndex));
+			this.ocrIndex.dirty = false;
+		} catch (error) {
+			console.error('OCRテキストの索引の保存エラー:', error);
+		}
+	}
+
+	// OCRテキストがまだ届いていない画像の最新の詳細を取得し、届いた画像を同期の対象に加えるメソッド
+	async recheckPendingOcr(imageDetails: GyazoImage[], account: GyazoAccount) {
+		const targetIds = new Set(imageDetails.map(image => image.image_id));
+		const pendingIds = Object.keys(account.pendingOcr).filter(imageId => !targetIds.has(imageId));
+		if (pendingIds.length === 0) return;
+
+		this.setSyncProgress(`${this.getAccountLabel(account)}${pendingIds.length}枚の画像のOCRを再確認中`);
+		const images = await this.runWithConcurrency(pendingIds, DETAIL_CONCURRENCY, imageId => this.fetchImageDetail(imageId, account));
+		for (const image of images) {
+			if (!image?.ocr?.description || !this.passesSyncFilter(image, true, account)) continue;
+
+			imageDetails.push(image);
+			const cached = this.detailCache[image.image_id];
+			this.setDetailCache(image.image_id, cached?.etag || null, image);
+		}
+		await this.saveDetailCache();
+	}
+
+	// GyazoのOCRテキストがない画像に、以前に認識して索引に登録したテキストを補うメソッド（索引や設定は変更しない）
+	withIndexedOcr(image: GyazoImage): GyazoImage {
+		if (image.ocr?.description) return image;
+		const indexed = this.ocrIndex.get(image.image_id);
+		return indexed ? {...image, ocr: {locale: indexed.locale, description: indexed.text}} : image;
+	}
+
+	// OCRテキストがない画像を索引や端末内のOCRで補完するメソッド
+	// 補完できなかった画像は、OCRテキストが届くまで再確認するため保留中として記録する
+	async fillMissingOcr(images: GyazoImage[], account: GyazoAccount): Promise<GyazoImage[]> {
+		const results: GyazoImage[] = [];
+		for (const image of images) {
+			// GyazoのOCRテキストがある場合は索引に登録
+			if (image.ocr?.description) {
+				this.ocrIndex.set(image.image_id, {text: image.ocr.description, locale: image.ocr.locale, source: 'gyazo', updatedAt: Date.now()});
+				delete account.pendingOcr[image.image_id];
+				results.push(image);
+				continue;
+			}
+
+			// 以前に端末内のOCRで認識したテキストを使用
+			const indexed = this.ocrIndex.get(image.image_id);
+			if (indexed) {
+				delete account.pendingOcr[image.image_id];
+				results.push({...image, ocr: {locale: indexed.locale, description: indexed.text}});
+				continue;
+			}
+
+			const text = VIDEO_TYPES.includes(image.type) ? null : await this.runLocalOcr(image);
+			if (text) {
+				this.ocrIndex.set(image.image_id, {text, locale: this.settings.ocrLanguages, source: 'local', updatedAt: Date.now()});
+				delete account.pendingOcr[image.image_id];
+				results.push({...image, ocr: {locale: this.settings.ocrLanguages, description: text}});
+				continue;
+			}
+
+			if (!(image.image_id in account.pendingOcr)) {
+				account.pendingOcr[image.image_id] = Date.now();
+			}
+			results.push(image);
+		}
+
+		// 一定期間が過ぎてもOCRテキストが届かない画像は再確認しない
+		for (const [imageId, since] of Object.entries(account.pendingOcr)) {
+			if (Date.now() - since > OCR_PENDING_MAX_AGE) delete account.pendingOcr[imageId];
+		}
+
+		await this.saveOcrIndex();
+		await this.saveSettings();
+		return results;
+	}
+
+	// 端末内のOCRで画像のテキストを認識するメソッド（無効な場合や認識できなかった場合はnull）
+	async runLocalOcr(image: GyazoImage): Promise<string | null> {
+		if (this.settings.ocrProvider !== 'tesseract') return null;
+
+		this.setSyncProgress(`OCRを実行中: ${image.image_id}`);
+		try {
+			if (!this.ocrProvider) {
+				const assetPaths = await this.getTesseractAssetPaths();
+				if (!assetPaths) return null;
+				this.ocrProvider = new TesseractOcrProvider(this.settings.ocrLanguages, assetPaths);
+			}
+			const text = (await this.ocrProvider.recognize(await this.downloadBinary(image.url))).trim();
+			return text || null;
+		} catch (error) {
+			console.error(`端末内のOCRのエラー (${image.image_id}):`, error);
+			return null;
+		}
+	}
+
+	// プラグインに同梱したTesseractのファイルのURLを取得するメソッド
+	// ファイルや言語データが見つからない場合はnull（外部からダウンロードさせないため端末内のOCRを実行しない）
+	async getTesseractAssetPaths(): Promise<TesseractAssetPaths | null> {
+		const adapter = this.app.vault.adapter;
+		const pluginDir = this.manifest.dir || `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+		const assetDir = `${pluginDir}/${TESSERACT_ASSET_DIR}`;
+		const requiredPaths = [
+			`${assetDir}/${TESSERACT_WORKER_FILE}`,
+			...parseOcrLanguages(this.settings.ocrLanguages).map(language => `${assetDir}/${TESSERACT_LANG_DIR}/${language}.traineddata.gz`)
+		];
+		for (const path of requiredPaths) {
+			if (!await adapter.exists(path)) {
+				console.warn(`端末内のOCRに必要なファイルが見つかりません: ${path}`);
+				new Notice(`端末内のOCRに必要なファイルが見つかりません: ${path}`);
+				return null;
+			}
+		}
+
+		// リソースのURLに付く更新時刻のクエリを除き、ディレクトリのURLとして使用できるようにする
+		const toUrl = (path: string) => adapter.getResourcePath(path).replace(/\?.*$/, '');
+		return {
+			workerPath: toUrl(`${assetDir}/${TESSERACT_WORKER_FILE}`),
+			corePath: toUrl(`${assetDir}/${TESSERACT_CORE_DIR}`),
+			langPath: toUrl(`${assetDir}/${TESSERACT_LANG_DIR}`)
+		};
+	}
+
+	// OCRのプロバイダーを破棄するメソッド（設定の変更時は次回の使用時に作り直す）
+	resetOcrProvider() {
+		const provider = this.ocrProvider;
+		this.ocrProvider = null;
+		provider?.terminate();
+	}
+
+	// ノートの画像のOCRテキストを取得し直してノートを更新するメソッド
+	async rerunOcr(file: TFile, imageId: string) {
+		const account = this.getAccountForNote(file);
+		if (!account) {
+			new Notice(UNKNOWN_ACCOUNT_MESSAGE);
+			return;
+		}
+
+		new Notice('OCRを再実行しています...');
+
+		try {
+			const detail = await this.fetchImageDetail(imageId, account);
+			if (!detail) {
+				new Notice('Gyazoから画像の情報を取得できませんでした');
+				return;
+			}
+
+			// 以前の端末内のOCRの結果は使わずに認識し直す
+			this.ocrIndex.delete(imageId);
+			const [image] = await this.fillMissingOcr([detail], account);
+			const cached = this.detailCache[imageId];
+			this.setDetailCache(imageId, cached?.etag || null, detail);
+			await this.saveDetailCache();
+
+			const attachment = this.shouldDownloadAttachment(image) ? await this.downloadImageAttachment(image) : null;
+			await this.createOrUpdateNote(image, attachment, account);
+			new Notice(image.ocr?.description ? 'OCRテキストを更新しました' : 'OCRテキストはまだありません。次回以降の同期で再確認します。');
+		} catch (error) {
+			console.error('OCRの再実行エラー:', error);
+			new Notice(`OCRの再実行に失敗しました: ${error.message || error}`);
+		} finally {
+			this.setSyncProgress(null);
+		}
+	}
+
+	// 同期の履歴を読み込むメソッド
+	async loadSyncHistory() {
+		const path = `${this.manifest.dir}/${SYNC_HISTORY_FILE}`;
+		try {
+			if (await this.app.vault.adapter.exists(path)) {
+				this.syncHistory = JSON.parse(await this.app.vault.adapter.read(path));
+			}
+		} catch (error) {
+			console.error('同期の履歴の読み込みエラー:', error);
+			this.syncHistory = [];
+		}
+	}
+
+	// 同期の履歴を追加して保存するメソッド（古い履歴は最大件数を超えた分を削除）
+	async addSyncHistory(entry: SyncHistoryEntry) {
+		this.syncHistory = [entry, ...this.syncHistory].slice(0, MAX_SYNC_HISTORY);
+		await this.saveSyncHistory();
+		this.updateStatusBar();
+	}
+
+	// 同期の履歴を消去するメソッド
+	async clearSyncHistory() {
+		this.syncHistory = [];
+		await this.saveSyncHistory();
+	}
+
+	// 同期の履歴を保存するメソッド
+	async saveSyncHistory() {
+		try {
+			await this.app.vault.adapter.write(`${this.manifest.dir}/${SYNC_HISTORY_FILE}`, JSON.stringify(this.syncHistory));
+		} catch (error) {
+			console.error('同期の履歴の保存エラー:', error);
+		}
+	}
+
+	// 実行中の同期の進捗を設定するメソッド（nullで完了）
+	setSyncProgress(progress: string | null) {
+		this.syncProgress = progress;
+		this.updateStatusBar();
+	}
+
+	// ステータスバーに最後の同期・次回の定期取得の時間、または実行中の同期の進捗を表示するメソッド
+	updateStatusBar() {
+		if (!this.statusBarEl) return;
+		this.statusBarEl.empty();
+
+		if (this.syncProgress) {
+			const iconEl = this.statusBarEl.createSpan({cls: 'gyazo-status-bar-spinner'});
+			setIcon(iconEl, 'loader-2');
+			this.statusBarEl.createSpan({text: `Gyazo: ${this.syncProgress}`});
+			this.statusBarEl.setAttribute('aria-label', this.syncProgress);
+			return;
+		}
+
+		const lastFetchTime = Math.max(0, ...this.settings.accounts.map(account => account.lastFetchTime || 0));
+		const nextFetchTimes = Array.from(this.nextFetchTimes.values());
+		const lastText = lastFetchTime > 0 ? moment(lastFetchTime).format('MM/DD HH:mm') : '未同期';
+		const nextText = nextFetchTimes.length > 0 ? ` / 次回 ${moment(Math.min(...nextFetchTimes)).format('MM/DD HH:mm')}` : '';
+		this.statusBarEl.createSpan({text: `Gyazo: ${lastText}${nextText}`});
+
+		// アカウントごとの詳細はツールチップに表示
+		const details = this.settings.accounts.map(account => {
+			const last = account.lastFetchTime ? moment(account.lastFetchTime).format('YYYY-MM-DD HH:mm') : '未同期';
+			const next = this.nextFetchTimes.get(account.id);
+			return `${account.name}: 最終同期 ${last}${next ? `、次回 ${moment(next).format('YYYY-MM-DD HH:mm')}` : ''}`;
+		});
+		this.statusBarEl.setAttribute('aria-label', `${details.join('\n')}\nクリックで同期の履歴を表示`);
+	}
+
+	async fetchImageDetail(imageId: string, account: GyazoAccount, signal?: AbortSignal): Promise<GyazoImage | null> {
+		if (!imageId) {
+			console.error('画像IDが空です');
+			return null;
+		}
+
+		console.log(`画像詳細を取得中: ${imageId}`);
+
+		try {
+			// 画像の詳細情報を取得
+			const image = await this.getClient(account).getImage(imageId, signal);
+			console.log(`画像詳細取得成功: ${imageId}`, image);
+			return image;
+		} catch (error) {
+			if (error instanceof GyazoCancelledError) throw error;
+			console.error(`画像詳細の取得エラー (${imageId}): ${error.message || error}`);
+			return null;
+		}
+	}
+
+	async ensureSaveDirectory(account: GyazoAccount): Promise<TFolder> {
+		return this.ensureFolder(account.saveDirectory);
+	}
+
+	// ファイルのパスの親ディレクトリを作成するメソッド（Vaultのルートの場合は何もしない）
+	async ensureParentFolder(filePath: string) {
+		const dirPath = filePath.substring(0, filePath.lastIndexOf('/'));
+		if (dirPath) await this.ensureFolder(dirPath);
+	}
+
+	// 指定したディレクトリが存在しない場合は作成するメソッド
+	async ensureFolder(dirPath: string): Promise<TFolder> {
+		const vault = this.app.vault;
+
+		// ディレクトリが存在するか確認
+		let dir = vault.getAbstractFileByPath(dirPath) as TFolder;
+		if (!dir) {
+			// ディレクトリが存在しない場合は作成
+			dir = await vault.createFolder(dirPath);
+		}
+
+		return dir;
+	}
+
+	// 画像をVault内にダウンロードするメソッド
+	// ノートに記録されたハッシュとローカルファイルのハッシュが一致する場合は再ダウンロードしない
+	async downloadImageAttachment(image: GyazoImage): Promise<LocalAttachment | null> {
+		const vault = this.app.vault;
+		const dirPath = this.settings.attachmentDirectory;
+		const path = `${dirPath}/${image.image_id}.${this.getFileExtension(image.url, image.type)}`;
+		let thumbPath: string | null = null;
+
+		try {
+			await this.ensureFolder(dirPath);
+
+			// 既存ノートに記録されたハッシュを取得
+			const noteFile = this.findNoteByGyazoId(image.image_id);
+			const storedHash = noteFile ? this.app.metadataCache.getFileCache(noteFile)?.frontmatter?.local_hash : null;
+
+			let hash: string | null = null;
+			const existingFile = vault.getAbstractFileByPath(path);
+			if (existingFile instanceof TFile && storedHash) {
+				const localHash = await this.computeHash(await vault.readBinary(existingFile));
+				if (localHash === storedHash) {
+					console.log(`ダウンロード済みの画像を使用: ${path}`);
+					hash = localHash;
+				}
+			}
+
+			if (!hash) {
+				const data = await this.downloadBinary(image.url);
+				hash = await this.computeHash(data);
+				await this.writeBinary(path, data);
+				console.log(`画像をダウンロード: ${path}`);
+			}
+
+			// サムネイルのダウンロード
+			if (this.settings.downloadThumbnails && image.thumb_url) {
+				thumbPath = `${dirPath}/${image.image_id}_thumb.${this.getFileExtension(image.thumb_url, image.type)}`;
+				if (!(vault.getAbstractFileByPath(thumbPath) instanceof TFile) || !storedHash || storedHash !== hash) {
+					await this.writeBinary(thumbPath, await this.downloadBinary(image.thumb_url));
+				}
+			}
+
+			return {path, hash, thumbPath};
+		} catch (error) {
+			console.error(`画像のダウンロードエラー (${image.image_id}): ${error.message || error}`);
+			return null;
+		}
+	}
+
+	// 画像の種類に応じてVault内にダウンロードするかを判定するメソッド（動画は動画のダウンロードの設定に従う）
+	shouldDownloadAttachment(image: GyazoImage): boolean {
+		if (this.isVideo(image)) return this.settings.videoPolicy === 'video' && this.settings.downloadVideos;
+		return this.settings.downloadImages;
+	}
+
+	// 動画かどうかを判定するメソッド
+	isVideo(image: GyazoImage): boolean {
+		return VIDEO_TYPES.includes((image.type || '').toLowerCase());
+	}
+
+	// 動画・GIFの再生時間とファイルサイズを取得するメソッド（動画・GIF以外はnull）
+	async resolveMediaInfo(image: GyazoImage, attachment: LocalAttachment | null): Promise<MediaInfo | null> {
+		const isVideo = this.isVideo(image);
+		if (!isVideo && (image.type || '').toLowerCase() !== 'gif') return null;
+
+		const cached = this.mediaInfoCache.get(image.image_id);
+		if (cached) return cached;
+
+		// 以前に取得した情報（画像の詳細のキャッシュまたはノートのプロパティ）がある場合は取得し直さない
+		const stored = this.detailCache[image.image_id]?.mediaInfo || this.getNoteMediaInfo(image.image_id);
+		if (stored) {
+			this.mediaInfoCache.set(image.image_id, stored);
+			return stored;
+		}
+
+		// ダウンロード済みの場合はローカルファイルから、それ以外はGyazoのURLから取得
+		const localFile = attachment ? this.getExistingFile(attachment.path) : null;
+		let size: number | null = localFile ? localFile.stat.size : null;
+		if (size === null && image.url) {
+			try {
+				const response = await requestUrl({url: image.url, method: 'HEAD'});
+				const length = Number(response.headers['content-length'] ?? response.headers['Content-Length']);
+				if (length > 0) size = length;
+			} catch (error) {
+				console.error(`ファイルサイズの取得エラー (${image.image_id}): ${error.message || error}`);
+			}
+		}
+
+		let duration: number | null = null;
+		if (isVideo) {
+			const src = localFile ? this.app.vault.getResourcePath(localFile) : image.url;
+			if (src) duration = await this.getVideoDuration(src);
+		}
+
+		const info = {duration, size};
+		this.mediaInfoCache.set(image.image_id, info);
+
+		// 再起動後も取得し直さないよう、画像の詳細のキャッシュに保存
+		const detail = this.detailCache[image.image_id];
+		this.detailCache[image.image_id] = detail ? {...detail, mediaInfo: info} : {etag: null, checkedAt: 0, image, mediaInfo: info};
+		this.detailCacheDirty = true;
+		return info;
+	}
+
+	// ノートのプロパティに記録された動画・GIFのファイルの情報を取得するメソッド（記録されていない場合はnull）
+	getNoteMediaInfo(imageId: string): MediaInfo | null {
+		const file = this.findNoteByGyazoId(imageId);
+		const frontmatter = file ? this.app.metadataCache.getFileCache(file)?.frontmatter : null;
+		const duration = typeof frontmatter?.duration === 'number' ? frontmatter.duration : null;
+		const size = typeof frontmatter?.file_size === 'number' ? frontmatter.file_size : null;
+		return duration !== null || size !== null ? {duration, size} : null;
+	}
+
+	// 画像の表示用のURLを取得するメソッド（fullがfalseの場合はサムネイル）
+	// ダウンロード済みのファイルがあればそれを使用し、動画は<img>で表示できないためサムネイルを使用する
+	getPreviewSrc(image: GyazoImage, localPath: string | null, localThumbPath: string | null, full: boolean): string {
+		const isVideo = this.isVideo(image);
+		const candidates = full ? [isVideo ? localThumbPath : localPath] : [localThumbPath, isVideo ? null : localPath];
+		for (const path of candidates) {
+			const file = path ? this.app.vault.getAbstractFileByPath(path) : null;
+			if (file instanceof TFile) return this.app.vault.getResourcePath(file);
+		}
+		return full && !isVideo ? image.url : image.thumb_url;
+	}
+
+	// 動画のメタデータのみを読み込んで再生時間を取得するメソッド（秒、取得できない場合はnull）
+	getVideoDuration(src: string): Promise<number | null> {
+		return new Promise(resolve => {
+			const video = document.createElement('video');
+			let finished = false;
+			const finish = (duration: number | null) => {
+				if (finished) return;
+				finished = true;
+				window.clearTimeout(timer);
+				video.removeAttribute('src');
+				video.load();
+				resolve(duration);
+			};
+			const timer = window.setTimeout(() => finish(null), VIDEO_METADATA_TIMEOUT);
+
+			video.preload = 'metadata';
+			video.onloadedmetadata = () => finish(isFinite(video.duration) ? Math.round(video.duration * 10) / 10 : null);
+			video.onerror = () => finish(null);
+			video.src = src;
+		});
+	}
+
+	// 画像の種類と設定に応じた埋め込みを取得するメソッド
+	getEmbed(image: GyazoImage, attachment: LocalAttachment | null, displayTitle: string): string {
+		if (attachment) return `![[${attachment.path}]]`;
+
+		if (this.isVideo(image)) {
+			// サムネイルのみの場合はGyazoのページへのリンク付きのサムネイルを埋め込む
+			if (this.settings.videoPolicy === 'thumbnail' || !image.url) {
+				return `[![${displayTitle}](${image.thumb_url})](${image.permalink_url})`;
+			}
+			return `<video src="${image.url}" poster="${image.thumb_url}" controls></video>`;
+		}
+
+		return `![${displayTitle}](${image.url})`;
+	}
+
+	// URLからバイナリデータを取得するメソッド
+	// i.gyazo.comはCORSで拒否される場合があるため、ObsidianのrequestUrlを使用する
+	async downloadBinary(url: string): Promise<ArrayBuffer> {
+		const response = await requestUrl({url, throw: false});
+		if (response.status !== 200) {
+			throw new Error(`ダウンロードエラー: ${response.status}`);
+		}
+		return response.arrayBuffer;
+	}
+
+	// バイナリデータをVaultに書き込むメソッド（既存ファイルは上書き）
+	async writeBinary(path: string, data: ArrayBuffer) {
+		const existingFile = this.app.vault.getAbstractFileByPath(path);
+		if (existingFile instanceof TFile) {
+			await this.app.vault.modifyBinary(existingFile, data);
+		} else {
+			await this.app.vault.createBinary(path, data);
+		}
+	}
+
+	// SHA-256ハッシュを16進文字列で取得するメソッド
+	async computeHash(data: ArrayBuffer): Promise<string> {
+		const digest = await crypto.subtle.digest('SHA-256', data);
+		return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+	}
+
+	// URLから拡張子を取得するメソッド（取得できない場合は画像タイプを使用）
+	getFileExtension(url: string, fallback: string): string {
+		const match = url.match(/\.([a-zA-Z0-9]+)(?:\?.*)?$/);
+		return match ? match[1].toLowerCase() : (fallback || 'png');
+	}
+
+	// 画像に対応するノートのファイルパスを生成するメソッド
+	getNoteFilePath(image: GyazoImage, account: GyazoAccount): string {
+		// ファイル名とサブフォルダをテンプレートから生成（値はファイル名に使用できる文字に変換）
+		const fileNameBase = this.sanitizeFileName(this.renderTemplate(this.settings.fileNameTemplate, image, null, true)) || image.image_id;
+
+		// ルールに一致した場合はルールの保存先を使用
+		const ruleFolder = this.getRoutingFolder(image);
+		if (ruleFolder) return `${ruleFolder}/${fileNameBase}.md`;
+
+		// 動画の保存先が指定されている場合は動画のノートを別のディレクトリに保存
+		const baseDirectory = this.isVideo(image) && this.settings.videoDirectory ? this.settings.videoDirectory : account.saveDirectory;
+		const folder = this.renderFolderTemplate(this.settings.folderTemplate, image);
+		const dirPath = folder ? `${baseDirectory}/${folder}` : baseDirectory;
+		return `${dirPath}/${fileNameBase}.md`;
+	}
+
+	// フォルダのテンプレートからフォルダのパスを生成するメソッド（値はファイル名に使用できる文字に変換）
+	renderFolderTemplate(template: string, image: GyazoImage): string {
+		return this.renderTemplate(template, image, null, true)
+			.split('/')
+			.map(segment => this.sanitizeFileName(segment))
+			.filter(segment => segment.length > 0)
+			.join('/');
+	}
+
+	// 画像に一致するルールの保存先を取得するメソッド（一致するルールがないか保存先が空の場合は空文字列）
+	getRoutingFolder(image: GyazoImage): string {
+		return this.renderFolderTemplate(this.findRoutingRule(image)?.folder || '', image);
+	}
+
+	// 画像に最初に一致するルールを取得するメソッド
+	findRoutingRule(image: GyazoImage): RoutingRule | null {
+		return this.settings.routingRules.find(rule => this.matchesRoutingRule(rule, image)) || null;
+	}
+
+	// 画像がルールの条件に一致するかを判定するメソッド
+	matchesRoutingRule(rule: RoutingRule, image: GyazoImage): boolean {
+		const pattern = rule.pattern.trim();
+		if (!pattern) return false;
+
+		switch (rule.field) {
+			case 'app':
+				return (image.metadata?.app || '').toLowerCase() === pattern.toLowerCase();
+			case 'domain': {
+				let hostname = '';
+				try {
+					hostname = new URL(image.metadata?.url || '').hostname.toLowerCase();
+				} catch (error) {
+					return false;
+				}
+				const domain = pattern.toLowerCase().replace(/^\*?\./, '');
+				return hostname === domain || hostname.endsWith(`.${domain}`);
+			}
+			case 'title':
+			case 'ocr': {
+				const text = rule.field === 'title' ? image.metadata?.title : image.ocr?.description;
+				try {
+					return new RegExp(pattern, 'i').test(text || '');
+				} catch (error) {
+					console.warn(`ルールの正規表現が正しくありません: ${pattern}`);
+					return false;
+				}
+			}
+			case 'type':
+				return (image.type || '').toLowerCase() === pattern.toLowerCase().replace(/^\./, '');
+			case 'created': {
+				const [from, to] = pattern.split('..').map(date => date.trim());
+				const created = moment(image.created_at).format('YYYY-MM-DD');
+				return (!from || created >= from) && (!to || created <= to);
+			}
+			default:
+				return false;
+		}
+	}
+
+	// ルールで画像に追加するタグを取得するメソッド
+	getRoutingTags(image: GyazoImage): string[] {
+		const rule = this.findRoutingRule(image);
+		if (!rule) return [];
+		return rule.tags.split(',')
+			.map(tag => tag.trim().replace(/^#/, '').replace(/\s+/g, '-'))
+			.filter(tag => tag.length > 0);
+	}
+
+	// 既存のGyazoノートにルールを再適用するメソッド
+	// 保存先が変わるノートの移動と、追加するタグをプレビューしてから実行する
+	async reapplyRoutingRules() {
+		const plan: SyncPlanItem[] = [];
+		const targetPaths = new Set<string>();
+
+		for (const [imageId, file] of this.noteIndex) {
+			// 削除された画像として処理済みのノートは対象外
+			if (this.isArchivedNote(file)) continue;
+
+			const synced = await this.getSyncedImage(imageId, file);
+			if (!synced) continue;
+
+			// 追加されていないタグがある場合はタグの追加を提案
+			const existingTags = this.getFrontmatterList(this.app.metadataCache.getFileCache(file)?.frontmatter?.tags);
+			const missingTags = this.getRoutingTags(synced.image).filter(tag => !existingTags.includes(tag));
+			if (missingTags.length > 0) {
+				plan.push({action: 'update', imageId, path: file.path, diff: `+ tags: ${missingTags.join(', ')}`, approved: true});
+			}
+
+			// 一致するルールの保存先がノートのフォルダと異なる場合のみ移動を提案（移動先に別のファイルがある場合は対象外）
+			// ノートは任意の場所に置けるため、ファイル名は変えず、ユーザーが移動した可能性もあるため初期状態では実行しない
+			const ruleFolder = this.getRoutingFolder(synced.image);
+			if (!ruleFolder || file.parent?.path === ruleFolder) continue;
+			const targetPath = `${ruleFolder}/${file.name}`;
+			if (!this.getExistingFile(targetPath) && !targetPaths.has(targetPath)) {
+				plan.push({action: 'rename', imageId, path: targetPath, oldPath: file.path, approved: false});
+				targetPaths.add(targetPath);
+			}
+		}
+
+		if (plan.length === 0) {
+			new Notice('ルールを適用する必要のあるノートはありません');
+			return;
+		}
+
+		new SyncPlanModal(this.app, plan, async (approved) => {
+			let taggedCount = 0;
+			let movedCount = 0;
+
+			for (const item of approved) {
+				try {
+					const file = this.findNoteByGyazoId(item.imageId);
+					if (!file) continue;
+
+					if (item.action === 'update') {
+						const synced = await this.getSyncedImage(item.imageId, file);
+						if (!synced) continue;
+						const tags = this.getRoutingTags(synced.image);
+						await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+							const existingTags = this.getFrontmatterList(frontmatter.tags);
+							frontmatter.tags = [...existingTags, ...tags.filter(tag => !existingTags.includes(tag))];
+						});
+						taggedCount++;
+					} else if (item.action === 'rename' && !this.getExistingFile(item.path)) {
+						// 名前変更（リンクも更新される）
+						await this.ensureParentFolder(item.path);
+						await this.app.fileManager.renameFile(file, item.path);
+						movedCount++;
+					}
+				} catch (error) {
+					console.error(`ルールの適用エラー: ${item.path}`, error);
+				}
+			}
+
+			new Notice(`ルールを適用しました: ${movedCount}件移動, ${taggedCount}件タグ追加`);
+		}).open();
+	}
+
+	// 単一の値または配列のフロントマターの値を文字列の配列に変換するメソッド
+	getFrontmatterList(value: unknown): string[] {
+		const values = Array.isArray(value) ? value : (value ? [value] : []);
+		return values.filter(item => item !== null && item !== undefined).map(item => String(item));
+	}
+
+	// テンプレートのプレースホルダーに対応する値を取得するメソッド
+	getTemplateValues(image: GyazoImage, attachment: LocalAttachment | null): Record<string, string> {
+		const title = image.metadata?.title || '';
+		const displayTitle = title || `Gyazo Image ${image.image_id}`;
+		const mediaInfo = this.mediaInfoCache.get(image.image_id);
+
+		return {
+			image_id: image.image_id,
+			type: image.type || '',
+			url: image.url || '',
+			permalink_url: image.permalink_url || '',
+			thumb_url: image.thumb_url || '',
+			created: moment(image.created_at).format('YYYY-MM-DD'),
+			YYYY: moment(image.created_at).format('YYYY'),
+			MM: moment(image.created_at).format('MM'),
+			DD: moment(image.created_at).format('DD'),
+			created_at: image.created_at || '',
+			app: image.metadata?.app || '',
+			title: title,
+			display_title: displayTitle,
+			desc: image.metadata?.desc || '',
+			source_url: image.metadata?.url || '',
+			ocr: image.ocr?.description || '',
+			local_path: attachment?.path || '',
+			duration: mediaInfo?.duration ? String(mediaInfo.duration) : '',
+			embed: this.getEmbed(image, attachment, displayTitle)
+		};
+	}
+
+	// テンプレートを描画するメソッド
+	// {{name}}で値を、{{created:YYYY-MM-DD}}で日付を、{{#name}}...{{/name}}と{{^name}}...{{/name}}で値の有無による条件分岐を表す
+	renderTemplate(template: string, image: GyazoImage, attachment: LocalAttachment | null, sanitize = false): string {
+		const values = this.getTemplateValues(image, attachment);
+		const valueOf = (key: string) => sanitize ? this.sanitizeFileName(values[key] || '') : (values[key] || '');
+
+		// 内側の条件ブロックから順に展開
+		const blockRegex = /\{\{([#^])(\w+)\}\}((?:(?!\{\{[#^])[\s\S])*?)\{\{\/\2\}\}/;
+		let result = template;
+		let match: RegExpMatchArray | null;
+		while ((match = result.match(blockRegex)) !== null) {
+			const [block, kind, key, inner] = match;
+			const hasValue = valueOf(key).length > 0;
+			const show = kind === '#' ? hasValue : !hasValue;
+			result = result.replace(block, () => show ? inner : '');
+		}
+
+		// 日付のプレースホルダーと通常のプレースホルダーを置換
+		return result
+			.replace(/\{\{created:([^}]+)\}\}/g, (_, format: string) => moment(image.created_at).format(format))
+			.replace(/\{\{(\w+)\}\}/g, (placeholder: string, key: string) => key in values ? valueOf(key) : placeholder);
+	}
+
+	// ノート本文のテンプレートを読み込むメソッド（読み込めない場合は標準のテンプレートを使用）
+	async loadBodyTemplate(): Promise<string> {
+		if (!this.settings.bodyTemplatePath) return DEFAULT_BODY_TEMPLATE;
+
+		const templateFile = this.app.vault.getAbstractFileByPath(this.settings.bodyTemplatePath);
+		if (templateFile instanceof TFile) {
+			return await this.app.vault.cachedRead(templateFile);
+		}
+
+		console.warn(`テンプレートファイルが見つかりません: ${this.settings.bodyTemplatePath}`);
+		return DEFAULT_BODY_TEMPLATE;
+	}
+
+	async createOrUpdateNote(image: GyazoImage, attachment: LocalAttachment | null, account: GyazoAccount): Promise<'created' | 'updated' | 'skipped'> {
+		const vault = this.app.vault;
+		const fileName = this.getNoteFilePath(image, account);
+
+		// 動画・GIFの再生時間とファイルサイズを取得（フロントマターと本文に使用）
+		await this.resolveMediaInfo(image, attachment);
+
+		// 同じgyazo_idのノートが既に存在するか確認（ファイル名が変わっていても同じノートを更新する）
+		const existingFile = this.findNoteByGyazoId(image.image_id) || this.getExistingFile(fileName);
+		if (existingFile) {
+			// 既存のファイルを更新
+			try {
+				// 既存のノートの内容を取得
+				const existingContent = await vault.read(existingFile);
+				const finalContent = await this.buildUpdatedNoteContent(existingContent, image, attachment, account);
+				if (finalContent === existingContent) {
+					return 'skipped';
+				}
+				
+				// ファイルを更新
+				await vault.modify(existingFile, finalContent);
+				return 'updated';
+			} catch (error) {
+				console.error('ノート更新エラー:', error);
+				new Notice('ノートの更新に失敗しました');
+				return 'skipped';
+			}
+		} else {
+			// 新しいファイルを作成
+			const noteContent = this.createNoteContent(image, attachment, await this.loadBodyTemplate(), account);
+			await this.ensureParentFolder(fileName);
+			const createdFile = await vault.create(fileName, noteContent);
+			this.noteIndex.set(image.image_id, createdFile);
+			this.notePathIndex.set(createdFile.path, image.image_id);
+			return 'created';
+		}
+	}
+
+	// 既存のノートに画像の最新の情報を反映した内容を生成するメソッド
+	async buildUpdatedNoteContent(existingContent: string, image: GyazoImage, attachment: LocalAttachment | null, account: GyazoAccount): Promise<string> {
+		// 既存の内容をメタデータと本文に分割
+		const parts = this.splitNoteContent(existingContent);
+
+		// プラグインが管理するキーのみ更新し、ユーザーが追加したキーは保持
+		const mergedMetadata = this.mergeFrontmatter(parts.metadata, this.getMetadataProperties(image, attachment, account), attachment !== null);
+		
+		let updatedContent = parts.body;
+
+		// ダウンロード済みの画像がある場合はGyazoのURLの埋め込みをローカルファイルに置き換え
+		if (attachment) {
+			updatedContent = updatedContent.split('\n').map(line => {
+				const isRemoteEmbed = (line.startsWith('![') && line.endsWith(`](${image.url})`)) || (line.startsWith('<video ') && line.includes(`src="${image.url}"`));
+				return isRemoteEmbed ? `![[${attachment.path}]]` : line;
+			}).join('\n');
+		}
+		
+		// 説明・OCRテキストのセクションのみ更新し、それ以外の本文は保持
+		const renderedBody = this.renderTemplate(await this.loadBodyTemplate(), image, attachment);
+		updatedContent = this.updateManagedSections(updatedContent, renderedBody);
+		
+		// メタデータと本文を結合
+		return `---\n${this.serializeFrontmatter(mergedMetadata)}---\n\n${updatedContent}\n`;
+	}
+
+	// 撮影日時とアプリから画像を一覧にするまとめノートのパスを取得するメソッド
+	getAggregateNotePath(createdAt: string, appName: string | null | undefined): string {
+		const created = moment(createdAt);
+
+		switch (this.settings.aggregationMode) {
+			case 'app': {
+				const app = this.sanitizeFileName(appName || '') || 'Unknown';
+				return `${this.settings.aggregationDirectory}/${app}.md`;
+			}
+			case 'daily-note': {
+				const options = this.getDailyNoteOptions();
+				const folder = options.folder.replace(/^\/+|\/+$/g, '');
+				const fileName = created.format(options.format);
+				return folder ? `${folder}/${fileName}.md` : `${fileName}.md`;
+			}
+			default:
+				return `${this.settings.aggregationDirectory}/${created.format('YYYY-MM-DD')}.md`;
+		}
+	}
+
+	// デイリーノートのフォルダと日付の形式を取得するメソッド
+	// コアプラグインのデイリーノートの設定に従い、取得できない場合はプラグインの設定を使用する
+	getDailyNoteOptions(): {folder: string, format: string} {
+		const dailyNotes = (this.app as AppWithInternalPlugins).internalPlugins?.getPluginById('daily-notes');
+		const options = dailyNotes?.enabled !== false ? dailyNotes?.instance?.options : undefined;
+		if (!options) {
+			return {folder: this.settings.dailyNoteFolder, format: this.settings.dailyNoteFormat || DEFAULT_SETTINGS.dailyNoteFormat};
+		}
+		return {folder: options.folder || '', format: options.format || DEFAULT_SETTINGS.dailyNoteFormat};
+	}
+
+	// まとめノートに画像の項目を追加・更新するメソッド（更新したまとめノートの数を返す）
+	// 項目はgyazo_idで識別するため、同じ画像を何度同期しても重複しない
+	async updateAggregateNotes(entries: {image: GyazoImage, attachment: LocalAttachment | null}[]): Promise<number> {
+		if (this.settings.aggregationMode === 'none' || entries.length === 0) return 0;
+
+		// まとめノートごとに項目をまとめる
+		const entriesByPath = new Map<string, {image: GyazoImage, attachment: LocalAttachment | null}[]>();
+		for (const entry of entries) {
+			const path = this.getAggregateNotePath(entry.image.created_at, entry.image.metadata?.app);
+			entriesByPath.set(path, [...(entriesByPath.get(path) || []), entry]);
+		}
+
+		// 以前に同期した画像も一覧に含めるよう、同じまとめノートに載せるGyazoノートをインデックスから探す
+		const indexedByPath = new Map<string, {imageId: string, file: TFile}[]>();
+		for (const [imageId, file] of this.noteIndex) {
+			const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+			if (!frontmatter?.created_at || this.isArchivedNote(file)) continue;
+			const path = this.getAggregateNotePath(String(frontmatter.created_at), frontmatter.app);
+			if (!entriesByPath.has(path)) continue;
+			indexedByPath.set(path, [...(indexedByPath.get(path) || []), {imageId, file}]);
+		}
+
+		let updatedCount = 0;
+		for (const [path, pathEntries] of entriesByPath) {
+			try {
+				const existingFile = this.getExistingFile(path);
+				const existingContent = existingFile ? await this.app.vault.read(existingFile) : this.createAggregateNoteContent(pathEntries[0].image);
+
+				// 既存の項目を読み込み、同じgyazo_idの項目は置き換える
+				const blockRegex = /<!-- gyazo:captures -->([\s\S]*?)<!-- \/gyazo:captures -->/;
+				const blockMatch = existingContent.match(blockRegex);
+				const items = new Map<string, {created: string, text: string}>();
+				const entryRegex = /<!-- gyazo:entry id=(\w+) created=(\S+) -->[\s\S]*?<!-- \/gyazo:entry -->/g;
+				let entryMatch: RegExpExecArray | null;
+				while (blockMatch && (entryMatch = entryRegex.exec(blockMatch[1])) !== null) {
+					const [text, imageId, created] = entryMatch;
+					items.set(imageId, {created, text});
+				}
+				for (const {imageId, file} of indexedByPath.get(path) || []) {
+					if (items.has(imageId)) continue;
+					const synced = await this.getSyncedImage(imageId, file);
+					if (!synced) continue;
+					const created = moment(synced.image.created_at).format('YYYY-MM-DDTHH:mm:ss');
+					const attachment = synced.localPath ? {path: synced.localPath, thumbPath: synced.localThumbPath} : null;
+					items.set(imageId, {created, text: this.renderAggregateEntry(synced.image, attachment, created, path)});
+				}
+				for (const {image, attachment} of pathEntries) {
+					const created = moment(image.created_at).format('YYYY-MM-DDTHH:mm:ss');
+					items.set(image.image_id, {created, text: this.renderAggregateEntry(image, attachment, created, path)});
+				}
+
+				// 撮影日時の順に並べて書き出す
+				const sortedItems = Array.from(items.values()).sort((a, b) => a.created.localeCompare(b.created));
+				const block = `<!-- gyazo:captures -->\n${sortedItems.map(item => item.text).join('\n')}\n<!-- /gyazo:captures -->`;
+				const updatedContent = blockMatch
+					? existingContent.replace(blockRegex, () => block)
+					: `${existingContent.replace(/\s*$/, '')}\n\n## Gyazo\n\n${block}\n`;
+
+				if (!existingFile) {
+					await this.ensureParentFolder(path);
+					await this.app.vault.create(path, updatedContent);
+					updatedCount++;
+				} else if (updatedContent !== existingContent) {
+					await this.app.vault.modify(existingFile, updatedContent);
+					updatedCount++;
+				}
+			} catch (error) {
+				console.error(`まとめノートの更新エラー: ${path}`, error);
+			}
+		}
+		return updatedCount;
+	}
+
+	// まとめノートを新しく作成する場合の内容を生成するメソッド（デイリーノートの場合は空）
+	createAggregateNoteContent(image: GyazoImage): string {
+		switch (this.settings.aggregationMode) {
+			case 'day':
+				return `# ${moment(image.created_at).format('YYYY-MM-DD')}のGyazo\n`;
+			case 'app':
+				return `# ${image.metadata?.app || 'Unknown'}のGyazo\n`;
+			default:
+				return '';
+		}
+	}
+
+	// まとめノートの1画像分の項目を生成するメソッド
+	renderAggregateEntry(image: GyazoImage, attachment: Pick<LocalAttachment, 'path' | 'thumbPath'> | null, created: string, sourcePath: string): string {
+		const title = (image.metadata?.title || `Gyazo Image ${image.image_id}`).replace(/[[\]|\n]/g, ' ');
+		const time = moment(image.created_at).format(this.settings.aggregationMode === 'app' ? 'YYYY-MM-DD HH:mm' : 'HH:mm');
+		const app = this.settings.aggregationMode !== 'app' && image.metadata?.app ? `（${image.metadata.app}）` : '';
+
+		// 画像ごとのノートがある場合はリンクも追加
+		const noteFile = this.findNoteByGyazoId(image.image_id);
+		const noteLink = noteFile ? ` ${this.app.fileManager.generateMarkdownLink(noteFile, sourcePath)}` : '';
+
+		const thumbPath = attachment?.thumbPath || attachment?.path;
+		const lines = [
+			`<!-- gyazo:entry id=${image.image_id} created=${created} -->`,
+			`- **${time}** [${title}](${image.permalink_url})${app}${noteLink}`,
+			`\t${thumbPath ? `![[${thumbPath}|240]]` : `![${title}|240](${image.thumb_url || image.url})`}`
+		];
+
+		const ocrText = (image.ocr?.description || '').replace(/\s+/g, ' ').trim();
+		if (ocrText) {
+			const excerpt = ocrText.length > AGGREGATE_OCR_EXCERPT_LENGTH ? `${ocrText.substring(0, AGGREGATE_OCR_EXCERPT_LENGTH)}…` : ocrText;
+			lines.push(`\t> ${excerpt}`);
+		}
+
+		lines.push('<!-- /gyazo:entry -->');
+		return lines.join('\n');
+	}
+
+	// パスにMarkdownファイルが存在する場合は取得するメソッド
+	getExistingFile(path: string): TFile | null {
+		const file = this.app.vault.getAbstractFileByPath(path);
+		return file instanceof TFile ? file : null;
+	}
+
+	// ファイル名に使用できない文字を除去するメソッド
+	sanitizeFileName(name: string): string {
+		// ファイル名に使用できない文字を除去し、スペースで置き換え
+		return name.replace(/[\\/:\*\?\"<>\|]/g, ' ').trim();
+	}
+
+	// プラグインが管理するフロントマターの値を生成するメソッド
+	getMetadataProperties(image: GyazoImage, attachment: LocalAttachment | null, account: GyazoAccount): Record<string, unknown> {
+		const properties: Record<string, unknown> = {
+			gyazo_id: image.image_id,
+			gyazo_account: account.id,
+			// 撮影日時と撮影日は同じ時刻（端末のタイムゾーン）から求め、撮影日時にはUTCとの時差を含める
+			created_at: moment(image.created_at).format(),
+			created: moment(image.created_at).format('YYYY-MM-DD'),
+			type: image.type,
+			permalink_url: image.permalink_url,
+			url: image.url,
+			thumb_url: image.thumb_url
+		};
+
+		if (image.metadata?.app) properties.app = image.metadata.app;
+		if (image.metadata?.title) properties.title = image.metadata.title;
+		if (image.metadata?.url) properties.source_url = image.metadata.url;
+		if (image.metadata?.desc) properties.description = image.metadata.desc;
+		if (image.ocr) properties.ocr_locale = image.ocr.locale;
+
+		const mediaInfo = this.mediaInfoCache.get(image.image_id);
+		if (mediaInfo?.duration) properties.duration = mediaInfo.duration;
+		if (mediaInfo?.size) properties.file_size = mediaInfo.size;
+
+		// ノートでの編集を判定するため、同期したGyazoのタイトル・説明のハッシュを記録
+		if (this.settings.twoWaySync) {
+			properties.gyazo_synced_hash = this.getEditableMetadataHash(image.metadata?.title || '', image.metadata?.desc || '');
+		}
+
+		const tags = this.getRoutingTags(image);
+		if (tags.length > 0) properties.tags = tags;
+
+		if (attachment) {
+			properties.local_path = attachment.path;
+			properties.local_hash = attachment.hash;
+			if (attachment.thumbPath) properties.local_thumb_path = attachment.thumbPath;
+		}
+
+		return properties;
+	}
+
+	// 既存のフロントマターにプラグインが管理する値を反映するメソッド
+	mergeFrontmatter(existingYaml: string, properties: Record<string, unknown>, hasAttachment: boolean): Record<string, unknown> {
+		let existing: Record<string, unknown> = {};
+		try {
+			const parsed = existingYaml ? parseYaml(existingYaml) : null;
+			if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+				existing = parsed;
+			}
+		} catch (error) {
+			// 旧バージョンが出力した引用符のないフロントマターは行単位で読み取り、ユーザーが追加したキーを残す
+			console.warn('既存のフロントマターの解析に失敗したため行単位で読み取ります:', error);
+			existing = this.parseBrokenFrontmatter(existingYaml);
+		}
+
+		// ノートでタイトル・説明が編集され、Gyazo側は前回の同期から変わっていない場合はノートの値を保持する
+		const syncedHash = existing.gyazo_synced_hash;
+		const localHash = this.getEditableMetadataHash(existing.title == null ? '' : String(existing.title), existing.description == null ? '' : String(existing.description));
+		const keptKeys = typeof syncedHash === 'string' && syncedHash === properties.gyazo_synced_hash && localHash !== syncedHash
+			? ['title', 'description']
+			: [];
+
+		// 既存のキーの順序を保ちつつ、プラグインが管理するキーを更新
+		const merged: Record<string, unknown> = {};
+		for (const [key, value] of Object.entries(existing)) {
+			if (!PLUGIN_FRONTMATTER_KEYS.includes(key) || keptKeys.includes(key)) {
+				merged[key] = value;
+			} else if (key in properties) {
+				merged[key] = properties[key];
+			} else if ((!hasAttachment && LOCAL_FRONTMATTER_KEYS.includes(key)) || MEDIA_FRONTMATTER_KEYS.includes(key)) {
+				merged[key] = value;
+			}
+		}
+		for (const [key, value] of Object.entries(properties)) {
+			if (!(key in merged) && !keptKeys.includes(key)) merged[key] = value;
+		}
+
+		// カテゴリはユーザーが追加した値を残してGyazoのカテゴリを含める
+		const category = merged.category;
+		const categories = Array.isArray(category) ? category : (category ? [category] : []);
+		if (!categories.includes(GYAZO_CATEGORY)) categories.unshift(GYAZO_CATEGORY);
+		merged.category = categories;
+
+		// ルールのタグはユーザーが追加したタグを残して追加
+		if (Array.isArray(properties.tags)) {
+			const tags = this.getFrontmatterList(merged.tags);
+			for (const tag of properties.tags) {
+				if (!tags.includes(tag)) tags.push(tag);
+			}
+			merged.tags = tags;
+		}
+
+		return merged;
+	}
+
+	// 本文のプラグインが管理するセクションを更新するメソッド
+	updateManagedSections(body: string, renderedBody: string): string {
+		let result = body;
+		for (const [name, legacyHeading] of Object.entries(MANAGED_SECTIONS)) {
+			const sectionRegex = new RegExp(`<!-- gyazo:${name} -->[\\s\\S]*?<!-- /gyazo:${name} -->`);
+			const rendered = renderedBody.match(sectionRegex);
+			if (!rendered) continue;
+
+			if (sectionRegex.test(result)) {
+				// マーカーで囲まれた範囲のみ置き換え
+				result = result.replace(sectionRegex, () => rendered[0]);
+			} else if (!result.includes(legacyHeading) && rendered[0].includes(legacyHeading)) {
+				// マーカーも見出しもない場合は新しく追記
+				result += `\n\n${rendered[0]}`;
+			}
+		}
+		return result;
+	}
+
+	// メタデータ部分のみを生成するメソッド
+	createMetadata(image: GyazoImage, attachment: LocalAttachment | null, account: GyazoAccount): string {
+		return this.serializeFrontmatter(Object.assign({category: [GYAZO_CATEGORY]}, this.getMetadataProperties(image, attachment, account)));
+	}
+
+	// フロントマターをYAMLとして書き出すメソッド
+	// 文字列は必要に応じて引用符で囲み、複数行の文字列はブロックスカラーとして出力する
+	serializeFrontmatter(properties: Record<string, unknown>): string {
+		let yaml = '';
+		for (const [key, value] of Object.entries(properties)) {
+			if (value === undefined) continue;
+
+			if (Array.isArray(value) && value.every(item => item === null || typeof item !== 'object')) {
+				if (value.length === 0) {
+					yaml += `${key}: []\n`;
+					continue;
+				}
+				yaml += `${key}:\n`;
+				for (const item of value) {
+					yaml += `  - ${this.serializeYamlScalar(item, '    ')}\n`;
+				}
+			} else if (value !== null && typeof value === 'object') {
+				// ネストしたオブジェクトはObsidianのYAML出力に任せる
+				yaml += stringifyYaml({[key]: value});
+			} else {
+				yaml += `${key}: ${this.serializeYamlScalar(value, '  ')}\n`;
+			}
+		}
+		return yaml;
+	}
+
+	// YAMLのスカラー値を書き出すメソッド
+	serializeYamlScalar(value: unknown, indent: string): string {
+		if (value === null) return 'null';
+		if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+
+		const text = String(value);
+
+		// 複数行の文字列はブロックスカラーとして出力
+		// 末尾の改行の数はチョンピングインジケーターで保ち、ブロックスカラーで表せない文字を含む場合は二重引用符で囲む
+		const content = text.replace(/\n+$/, '');
+		const firstLine = content.split('\n').find(line => line.length > 0) || '';
+		if (content.includes('\n') && !/^[ \t]/.test(firstLine) && !this.hasYamlEscapeChars(text.replace(/[\n\t]/g, ''))) {
+			const trailingNewlines = text.length - content.length;
+			const chomping = trailingNewlines === 0 ? '-' : (trailingNewlines === 1 ? '' : '+');
+			const lines = content.split('\n').map(line => line ? indent + line : '');
+			return `|${chomping}\n${lines.join('\n')}${'\n'.repeat(Math.max(trailingNewlines - 1, 0))}`;
+		}
+
+		return this.needsYamlQuotes(text) ? this.quoteYamlString(text) : text;
+	}
+
+	// 文字列をYAMLの二重引用符で囲むメソッド
+	// JSONの文字列はYAMLの二重引用符の文字列として読めるが、改行として扱われる文字や制御文字はエスケープする
+	quoteYamlString(text: string): string {
+		return JSON.stringify(text).replace(/[\u007f-\u009f\u2028\u2029\ufeff]/g, char => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`);
+	}
+
+	// 文字列にYAMLでエスケープが必要な文字（制御文字・改行として扱われる文字）が含まれる場合にtrueを返すメソッド
+	hasYamlEscapeChars(text: string): boolean {
+		return Array.from(text).some(char => {
+			const code = char.charCodeAt(0);
+			return code < 0x20 || (code >= 0x7f && code <= 0x9f) || code === 0x2028 || code === 0x2029 || code === 0xfeff;
+		});
+	}
+
+	// YAMLの文字列をそのまま書き出すと別の値として解釈される場合にtrueを返すメソッド
+	// YAML 1.1と1.2のどちらで読んでも文字列になるよう、真偽値・null・数値・日時として解釈されうる値は引用符で囲む
+	needsYamlQuotes(text: string): boolean {
+		return text === ''
+			|| /^\s|\s$/.test(text)
+			|| /^[-?:,[\]{}#&*!|>'"%@`]/.test(text)
+			|| /: |:$| #/.test(text)
+			|| this.hasYamlEscapeChars(text)
+			|| /^(y|n|yes|no|true|false|on|off|null|~|=|<<)$/i.test(text)
+			// 整数・小数・指数表記・16進数・8進数・2進数・60進数（12:30など）
+			|| /^[-+]?\.?\d[\d_a-fA-FxXoObB.:eE+-]*$/.test(text)
+			|| /^[-+]?\.(inf|nan)$/i.test(text)
+			// 日付・日時（2024-01-01、2024-01-01T10:00:00など）
+			|| /^\d{4}-\d{1,2}-\d{1,2}([Tt\s]|$)/.test(text);
+	}
+
+	// ノートの内容をメタデータと本文に分割するメソッド
+	splitNoteContent(content: string): { metadata: string, body: string } {
+		// メタデータと本文を分割
+		const metadataRegex = /^---\n([\s\S]*?)\n---\n([\s\S]*)$/;
+		const match = content.match(metadataRegex);
+		
+		if (match && match.length >= 3) {
+			return {
+				metadata: match[1],
+				body: match[2].trim()
+			};
+		}
+		
+		// メタデータが見つからない場合は、全体を本文として扱う
+		return {
+			metadata: '',
+			body: content.trim()
+		};
+	}
+
+	createNoteContent(image: GyazoImage, attachment: LocalAttachment | null, bodyTemplate: string, account: GyazoAccount): string {
+		// メタデータを生成
+		const metadata = this.createMetadata(image, attachment, account);
+
+		// 本文をテンプレートから生成
+		const body = this.renderTemplate(bodyTemplate, image, attachment);
+
+		return `---
+${metadata}---
+
+${body}`;
+	}
+}
+
+class GyazoSettingTab extends PluginSettingTab {
+	plugin: GyazoPlugin;
+	templatePreviewEl: HTMLElement | null = null;
+
+	constructor(app: App, plugin: GyazoPlugin) {
+		super(app, plugin);
+		this.plugin = plugin;
+	}
+
+	display(): void {
+		const {containerEl} = this;
+
+		containerEl.empty();
+
+		containerEl.createEl('h2', {text: 'Gyazo連携設定'});
+
+		containerEl.createEl('h3', {text: 'アカウント'});
+
+		containerEl.createEl('p', {
+			text: '複数のGyazoアカウントを登録すると、アカウントごとに画像を同期し、ノートのgyazo_accountにアカウントのIDを記録します。この端末でログインしていないアカウントは同期されません。アップロードには、この端末でログインしている最初のアカウントを使用します。'
+		});
+
+		for (const account of this.plugin.settings.accounts) {
+			this.displayAccount(containerEl, account);
+		}
+
+		new Setting(containerEl)
+			.addButton(button => button
+				.setButtonText('アカウントを追加')
+				.onClick(async () => {
+					const accounts = this.plugin.settings.accounts;
+					let number = accounts.length + 1;
+					while (accounts.some(account => account.id === `account-${number}`)) number++;
+					accounts.push(Object.assign({}, DEFAULT_ACCOUNT, {
+						id: `account-${number}`,
+						name: `アカウント${number}`,
+						syncFilter: Object.assign({}, DEFAULT_ACCOUNT.syncFilter),
+						ignoredImageIds: []
+					}));
 					await this.plugin.saveSettings();
+					this.display();
 				}));
 
+		containerEl.createEl('h3', {text: 'Gyazoアプリケーション'});
+
 		new Setting(containerEl)
-			.setName('保存ディレクトリ')
-			.setDesc('Gyazo画像のノートを保存するディレクトリを指定してください。')
+			.setName('Client ID')
+			.setDesc(`ログインに使用するGyazoアプリケーションのClient IDです。Gyazo Developerでアプリケーションを作成し、Callback URLに「${OAUTH_REDIRECT_URI}」を指定してください。`)
 			.addText(text => text
-				.setPlaceholder('例: Gyazo')
-				.setValue(this.plugin.settings.saveDirectory)
+				.setValue(this.plugin.settings.oauthClientId)
 				.onChange(async (value) => {
-					this.plugin.settings.saveDirectory = value;
+					this.plugin.settings.oauthClientId = value.trim();
 					await this.plugin.saveSettings();
 				}));
 
+		new Setting(containerEl)
+			.setName('Client Secret')
+			.setDesc('ログインに使用するGyazoアプリケーションのClient Secretです。')
+			.addText(text => {
+				text.inputEl.type = 'password';
+				text
+					.setValue(this.plugin.getClientSecret())
+					.onChange(async (value) => {
+						await this.plugin.setClientSecret(value.trim());
+					});
+			});
+
+		containerEl.createEl('h3', {text: '同期設定'});
+
 		new Setting(containerEl)
 			.setName('強制再取得')
 			.setDesc('ノートを消して再取得するかどうかを指定します。チェックすると、既存のノートを削除して再取得します。')
@@ -789,27 +5104,54 @@ class GyazoSettingTab extends PluginSettingTab {
 				}));
 
 		new Setting(containerEl)
-			.setName('定期取得間隔')
-			.setDesc('定期的に画像を取得する間隔を時間単位で指定します。0の場合は定期取得を行いません。')
-			.addSlider(slider => slider
-				.setLimits(0, 24, 1)
-				.setValue(this.plugin.settings.fetchInterval)
-				.setDynamicTooltip()
+			.setName('同期内容をプレビューする')
+			.setDesc('同期の前に作成・更新・名前変更・削除されるノートの一覧を表示し、承認した項目のみ実行します。')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.dryRunSync)
 				.onChange(async (value) => {
-					this.plugin.settings.fetchInterval = value;
+					this.plugin.settings.dryRunSync = value;
 					await this.plugin.saveSettings();
-					
-					// 定期取得のタイマーを再設定
-					this.plugin.setupFetchTimer();
-				}))
-			.addExtraButton(button => {
-				button
-					.setIcon('info')
-					.setTooltip('現在の設定: ' + (this.plugin.settings.fetchInterval === 0 ? '定期取得なし' : `${this.plugin.settings.fetchInterval}時間ごと`))
-					.onClick(() => {
-						new Notice(this.plugin.settings.fetchInterval === 0 ? '定期取得は無効です' : `定期取得: ${this.plugin.settings.fetchInterval}時間ごとに実行されます`);
-					});
-			});
+				}));
+
+		new Setting(containerEl)
+			.setName('起動時に同期する')
+			.setDesc('Obsidianの起動時に、ログインしているすべてのアカウントの画像を取得します。')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.syncOnStartup)
+				.onChange(async (value) => {
+					this.plugin.settings.syncOnStartup = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('バックグラウンドでは定期取得しない')
+			.setDesc('モバイルでアプリがバックグラウンドにある間は定期取得を止め、フォアグラウンドに戻ったときに予定を過ぎた取得を実行します。')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.pauseSyncInBackground)
+				.onChange(async (value) => {
+					this.plugin.settings.pauseSyncInBackground = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('ノートで編集したタイトル・説明を保持する')
+			.setDesc('ノートのtitle・descriptionプロパティを編集した場合、以降の同期でGyazoの値で上書きせずにノートの値を保持します（GyazoのAPIではタイトル・説明を更新できないため、Gyazoには反映されません）。ノートとGyazoの両方で編集されていた場合は、どちらの値を使うか確認します。有効にした後に同期したノートから対象になります。')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.twoWaySync)
+				.onChange(async (value) => {
+					this.plugin.settings.twoWaySync = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('ノートの編集時に同期する')
+			.setDesc('ノートで編集したタイトル・説明を保持する場合に、Gyazoノートのtitle・descriptionプロパティを編集すると、編集が止まってから1分後に同期し、Gyazo側でも編集されていればどちらの値を使うか確認します。')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.syncOnNoteEdit)
+				.onChange(async (value) => {
+					this.plugin.settings.syncOnNoteEdit = value;
+					await this.plugin.saveSettings();
+				}));
 
 		containerEl.createEl('h3', {text: '削除された画像の処理'});
 
@@ -824,12 +5166,317 @@ class GyazoSettingTab extends PluginSettingTab {
 				}));
 
 		new Setting(containerEl)
-			.setName('削除された画像のノートも削除する')
-			.setDesc('Gyazoで削除された画像に対応するノートを自動的に削除します。チェックしない場合は通知のみを行います。')
+			.setName('削除された画像のノートの扱い')
+			.setDesc('Gyazoで削除された画像に対応するノートの扱いを指定します。強制再取得で作り直すノートも「完全に削除」以外ではゴミ箱へ移動します。')
+			.addDropdown(dropdown => dropdown
+				.addOptions(DELETED_IMAGE_POLICY_LABELS)
+				.setValue(this.plugin.settings.deletedImagePolicy)
+				.onChange(async (value) => {
+					this.plugin.settings.deletedImagePolicy = value as DeletedImagePolicy;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('アーカイブディレクトリ')
+			.setDesc('「アーカイブディレクトリへ移動」を選択した場合の移動先を指定します。')
+			.addText(text => text
+				.setPlaceholder('例: Gyazo/Archive')
+				.setValue(this.plugin.settings.archiveDirectory)
+				.onChange(async (value) => {
+					this.plugin.settings.archiveDirectory = value;
+					await this.plugin.saveSettings();
+				}));
+
+		containerEl.createEl('h3', {text: 'ローカル保存設定'});
+
+		new Setting(containerEl)
+			.setName('画像をVaultにダウンロードする')
+			.setDesc('Gyazoの画像をVault内に保存し、ノートにはローカルファイルを埋め込みます。オフラインやGyazoで画像が削除された場合でも表示できます。')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.downloadImages)
+				.onChange(async (value) => {
+					this.plugin.settings.downloadImages = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('サムネイルもダウンロードする')
+			.setDesc('元画像に加えてサムネイル画像もVault内に保存します。')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.downloadThumbnails)
+				.onChange(async (value) => {
+					this.plugin.settings.downloadThumbnails = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('画像の保存ディレクトリ')
+			.setDesc('ダウンロードした画像を保存するディレクトリを指定してください。')
+			.addText(text => text
+				.setPlaceholder('例: Gyazo/attachments')
+				.setValue(this.plugin.settings.attachmentDirectory)
+				.onChange(async (value) => {
+					this.plugin.settings.attachmentDirectory = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('パーマリンクをカードとして表示する')
+			.setDesc('ノート内のURLのみのGyazoのパーマリンクを、画像・タイトル・アプリ名・撮影日時・OCRテキストを含むカードとして表示します。```gyazo```コードブロックは常にカードとして表示されます。')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.renderPermalinkCards)
+				.onChange(async (value) => {
+					this.plugin.settings.renderPermalinkCards = value;
+					await this.plugin.saveSettings();
+				}));
+
+		containerEl.createEl('h3', {text: '動画設定'});
+
+		new Setting(containerEl)
+			.setName('動画の扱い')
+			.setDesc('Gyazoで撮影した動画（mp4など）のノートへの埋め込み方を指定します。GIFは画像として埋め込まれ、ノート上で再生されます。')
+			.addDropdown(dropdown => dropdown
+				.addOptions(VIDEO_POLICY_LABELS)
+				.setValue(this.plugin.settings.videoPolicy)
+				.onChange(async (value) => {
+					this.plugin.settings.videoPolicy = value as VideoPolicy;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('動画のノートの保存ディレクトリ')
+			.setDesc('動画のノートを画像とは別のディレクトリに保存する場合に指定します。空の場合はアカウントの保存ディレクトリに保存します。')
+			.addText(text => text
+				.setPlaceholder('例: Gyazo/Videos')
+				.setValue(this.plugin.settings.videoDirectory)
+				.onChange(async (value) => {
+					this.plugin.settings.videoDirectory = value.trim().replace(/\/+$/, '');
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('動画をVaultにダウンロードする')
+			.setDesc('「動画として埋め込む」場合に、動画ファイルを画像の保存ディレクトリに保存してローカルファイルを埋め込みます。動画はファイルサイズが大きいため、画像のダウンロードとは別に指定します。')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.downloadVideos)
+				.onChange(async (value) => {
+					this.plugin.settings.downloadVideos = value;
+					await this.plugin.saveSettings();
+				}));
+
+		containerEl.createEl('h3', {text: '保存先のルール'});
+
+		containerEl.createEl('p', {
+			text: '上から順に条件を評価し、最初に一致したルールの保存先（Vaultのルートからのパス、テンプレート可）にノートを保存してタグを追加します。保存先が空の場合は通常の保存先を使用します。既存のノートにはコマンド「Gyazoノートにルールを再適用」で適用できます。'
+		});
+
+		this.plugin.settings.routingRules.forEach((rule, index) => {
+			const rules = this.plugin.settings.routingRules;
+			new Setting(containerEl)
+				.setClass('gyazo-routing-rule')
+				.addDropdown(dropdown => dropdown
+					.addOptions(ROUTING_RULE_FIELD_LABELS)
+					.setValue(rule.field)
+					.onChange(async (value) => {
+						rule.field = value as RoutingRuleField;
+						await this.plugin.saveSettings();
+						this.updateTemplatePreview();
+					}))
+				.addText(text => text
+					.setPlaceholder('条件')
+					.setValue(rule.pattern)
+					.onChange(async (value) => {
+						rule.pattern = value;
+						await this.plugin.saveSettings();
+						this.updateTemplatePreview();
+					}))
+				.addText(text => text
+					.setPlaceholder('保存先（例: Gyazo/{{YYYY}}/{{MM}}）')
+					.setValue(rule.folder)
+					.onChange(async (value) => {
+						rule.folder = value;
+						await this.plugin.saveSettings();
+						this.updateTemplatePreview();
+					}))
+				.addText(text => text
+					.setPlaceholder('タグ（カンマ区切り）')
+					.setValue(rule.tags)
+					.onChange(async (value) => {
+						rule.tags = value;
+						await this.plugin.saveSettings();
+					}))
+				.addExtraButton(button => button
+					.setIcon('arrow-up')
+					.setTooltip('上へ移動')
+					.setDisabled(index === 0)
+					.onClick(async () => {
+						if (index === 0) return;
+						[rules[index - 1], rules[index]] = [rules[index], rules[index - 1]];
+						await this.plugin.saveSettings();
+						this.display();
+					}))
+				.addExtraButton(button => button
+					.setIcon('arrow-down')
+					.setTooltip('下へ移動')
+					.setDisabled(index === rules.length - 1)
+					.onClick(async () => {
+						if (index === rules.length - 1) return;
+						[rules[index], rules[index + 1]] = [rules[index + 1], rules[index]];
+						await this.plugin.saveSettings();
+						this.display();
+					}))
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('削除')
+					.onClick(async () => {
+						rules.splice(index, 1);
+						await this.plugin.saveSettings();
+						this.display();
+					}));
+		});
+
+		new Setting(containerEl)
+			.addButton(button => button
+				.setButtonText('ルールを追加')
+				.onClick(async () => {
+					this.plugin.settings.routingRules.push({field: 'app', pattern: '', folder: '', tags: ''});
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		containerEl.createEl('h3', {text: 'まとめノート設定'});
+
+		new Setting(containerEl)
+			.setName('まとめノート')
+			.setDesc('同期した画像を撮影日ごと・アプリごとのノート、または撮影日のデイリーノートに、サムネイル・時刻・タイトル・OCRテキストの抜粋の一覧として書き込みます。')
+			.addDropdown(dropdown => dropdown
+				.addOptions(AGGREGATION_MODE_LABELS)
+				.setValue(this.plugin.settings.aggregationMode)
+				.onChange(async (value) => {
+					this.plugin.settings.aggregationMode = value as AggregationMode;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('まとめノートのみに書き込む')
+			.setDesc('画像ごとのノートを作成せず、まとめノートのみに書き込みます。')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.aggregateOnly)
+				.onChange(async (value) => {
+					this.plugin.settings.aggregateOnly = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('まとめノートの保存ディレクトリ')
+			.setDesc('撮影日ごと・アプリごとのまとめノートを保存するディレクトリを指定します。デイリーノートはデイリーノートの設定に従います。')
+			.addText(text => text
+				.setPlaceholder('例: Gyazo/Digest')
+				.setValue(this.plugin.settings.aggregationDirectory)
+				.onChange(async (value) => {
+					this.plugin.settings.aggregationDirectory = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('デイリーノートのフォルダ / 日付の形式')
+			.setDesc('デイリーノートのコアプラグインが無効な場合に使用するデイリーノートのフォルダと日付の形式を指定します。')
+			.addText(text => text
+				.setPlaceholder('例: Daily')
+				.setValue(this.plugin.settings.dailyNoteFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.dailyNoteFolder = value;
+					await this.plugin.saveSettings();
+				}))
+			.addText(text => text
+				.setPlaceholder(DEFAULT_SETTINGS.dailyNoteFormat)
+				.setValue(this.plugin.settings.dailyNoteFormat)
+				.onChange(async (value) => {
+					this.plugin.settings.dailyNoteFormat = value || DEFAULT_SETTINGS.dailyNoteFormat;
+					await this.plugin.saveSettings();
+				}));
+
+		containerEl.createEl('h3', {text: 'アップロード設定'});
+
+		new Setting(containerEl)
+			.setName('貼り付けた画像をGyazoへアップロードする')
+			.setDesc('エディタに貼り付け・ドロップした画像をVaultに保存せずGyazoへアップロードし、Gyazoの画像を埋め込みます。')
 			.addToggle(toggle => toggle
-				.setValue(this.plugin.settings.deleteNotesForDeletedImages)
+				.setValue(this.plugin.settings.uploadOnPaste)
+				.onChange(async (value) => {
+					this.plugin.settings.uploadOnPaste = value;
+					await this.plugin.saveSettings();
+				}));
+
+		containerEl.createEl('h3', {text: 'テンプレート設定'});
+
+		containerEl.createEl('p', {
+			text: '使用できるプレースホルダー: {{image_id}}, {{created:YYYY-MM-DD}}, {{YYYY}}, {{MM}}, {{DD}}, {{app}}, {{title}}, {{display_title}}, {{desc}}, {{ocr}}, {{source_url}}, {{url}}, {{permalink_url}}, {{thumb_url}}, {{type}}, {{duration}}, {{embed}}。{{#title}}...{{/title}}は値がある場合、{{^title}}...{{/title}}は値がない場合のみ出力されます。'
+		});
+
+		new Setting(containerEl)
+			.setName('ファイル名テンプレート')
+			.setDesc('ノートのファイル名のテンプレートを指定します。')
+			.addText(text => text
+				.setValue(this.plugin.settings.fileNameTemplate)
+				.onChange(async (value) => {
+					this.plugin.settings.fileNameTemplate = value || DEFAULT_SETTINGS.fileNameTemplate;
+					await this.plugin.saveSettings();
+					this.updateTemplatePreview();
+				}));
+
+		new Setting(containerEl)
+			.setName('フォルダテンプレート')
+			.setDesc('保存ディレクトリ内のサブフォルダのテンプレートを指定します。空の場合は保存ディレクトリ直下に保存します。')
+			.addText(text => text
+				.setPlaceholder('例: {{created:YYYY}}/{{created:MM}}')
+				.setValue(this.plugin.settings.folderTemplate)
+				.onChange(async (value) => {
+					this.plugin.settings.folderTemplate = value;
+					await this.plugin.saveSettings();
+					this.updateTemplatePreview();
+				}));
+
+		new Setting(containerEl)
+			.setName('本文テンプレートファイル')
+			.setDesc('ノート本文のテンプレートとして使用するVault内のファイルのパスを指定します。空の場合は標準のテンプレートを使用します。')
+			.addText(text => text
+				.setPlaceholder('例: Templates/Gyazo.md')
+				.setValue(this.plugin.settings.bodyTemplatePath)
+				.onChange(async (value) => {
+					this.plugin.settings.bodyTemplatePath = value;
+					await this.plugin.saveSettings();
+					this.updateTemplatePreview();
+				}));
+
+		containerEl.createEl('h4', {text: 'プレビュー'});
+		this.templatePreviewEl = containerEl.createEl('pre');
+		this.templatePreviewEl.addClass('gyazo-template-preview');
+		this.updateTemplatePreview();
+
+		containerEl.createEl('h3', {text: 'OCR設定'});
+
+		new Setting(containerEl)
+			.setName('OCRテキストがない画像の扱い')
+			.setDesc('GyazoのOCRテキストがまだない画像の扱いを指定します。「GyazoのOCRのみ」では、OCRテキストが届くまで同期のたびに最大7日間再確認します。「端末内のOCR」では、プラグインに同梱したTesseractで端末内で画像のテキストを認識します。')
+			.addDropdown(dropdown => dropdown
+				.addOptions(OCR_PROVIDER_LABELS)
+				.setValue(this.plugin.settings.ocrProvider)
+				.onChange(async (value) => {
+					this.plugin.settings.ocrProvider = value as OcrProviderType;
+					this.plugin.resetOcrProvider();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('OCRで認識する言語')
+			.setDesc(`端末内のOCRで認識する言語をTesseractの言語コードで指定します。複数の言語は+で区切ります。jpnとeng以外の言語は、プラグインのフォルダの${TESSERACT_ASSET_DIR}/${TESSERACT_LANG_DIR}に<言語コード>.traineddata.gzを置いてください。`)
+			.addText(text => text
+				.setPlaceholder('例: jpn+eng')
+				.setValue(this.plugin.settings.ocrLanguages)
 				.onChange(async (value) => {
-					this.plugin.settings.deleteNotesForDeletedImages = value;
+					this.plugin.settings.ocrLanguages = value.trim() || DEFAULT_SETTINGS.ocrLanguages;
+					this.plugin.resetOcrProvider();
 					await this.plugin.saveSettings();
 				}));
 
@@ -859,4 +5506,228 @@ class GyazoSettingTab extends PluginSettingTab {
 			text: 'Gyazo APIの詳細については、https://gyazo.com/api/docs を参照してください。'
 		});
 	}
+
+	// アカウントごとの設定を表示するメソッド
+	displayAccount(containerEl: HTMLElement, account: GyazoAccount) {
+		const accounts = this.plugin.settings.accounts;
+		containerEl.createEl('h4', {text: account === accounts[0] ? `${account.name}（メイン）` : account.name});
+
+		const accountSetting = new Setting(containerEl)
+			.setName('ログイン状態');
+		if (this.plugin.getAccessToken(account)) {
+			// アクセストークンの確認はログイン時か「確認」ボタンを押したときのみ行う
+			const user = this.plugin.accountUsers.get(account.id);
+			accountSetting
+				.setDesc(user === undefined ? 'ログイン中（アクセストークンは未確認）' : (user ? `${user.name}（${user.email}）としてログイン中` : 'アクセストークンが無効です。もう一度ログインしてください。'))
+				.addButton(button => button
+					.setButtonText('確認')
+					.onClick(async () => {
+						accountSetting.setDesc('アクセストークンを確認中...');
+						button.setDisabled(true);
+						await this.plugin.validateAccessToken(account);
+						this.display();
+					}))
+				.addButton(button => button
+					.setButtonText('ログアウト')
+					.onClick(async () => {
+						await this.plugin.logOut(account);
+						this.display();
+					}));
+		} else {
+			accountSetting
+				.setDesc('ログインしていません。')
+				.addButton(button => button
+					.setButtonText('Gyazoにログイン')
+					.setCta()
+					.onClick(() => {
+						this.plugin.startOAuthLogin(account);
+					}));
+		}
+
+		new Setting(containerEl)
+			.setName('アカウント名')
+			.setDesc(`ノートのgyazo_accountには「${account.id}」が記録されます。`)
+			.addText(text => text
+				.setValue(account.name)
+				.onChange(async (value) => {
+					account.name = value.trim() || account.id;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('アクセストークンを直接入力')
+			.setDesc('ログインの代わりに、Gyazo Developerで発行したアクセストークンを入力することもできます。')
+			.addText(text => {
+				text.inputEl.type = 'password';
+				text
+					.setPlaceholder('アクセストークンを入力')
+					.setValue(this.plugin.getAccessToken(account))
+					.onChange(async (value) => {
+						await this.plugin.setAccessToken(account, value.trim());
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('アクセストークンをこの端末にのみ保存する')
+			.setDesc('アクセストークンを同期されるプラグインのデータ（data.json）ではなく、この端末のVaultごとのローカルストレージに保存します。GyazoアプリケーションのClient Secretも同様に保存されます。他の端末ではもう一度ログインが必要です。')
+			.addToggle(toggle => toggle
+				.setValue(account.storeTokenLocally)
+				.onChange(async (value) => {
+					await this.plugin.setTokenStorage(account, value);
+				}));
+
+		new Setting(containerEl)
+			.setName('保存ディレクトリ')
+			.setDesc('このアカウントのGyazo画像のノートを保存するディレクトリを指定してください。')
+			.addText(text => text
+				.setPlaceholder('例: Gyazo')
+				.setValue(account.saveDirectory)
+				.onChange(async (value) => {
+					account.saveDirectory = value;
+					await this.plugin.saveSettings();
+					this.updateTemplatePreview();
+				}));
+
+		new Setting(containerEl)
+			.setName('定期取得間隔')
+			.setDesc('定期的に画像を取得する間隔を分単位で指定します。0の場合は定期取得を行いません。')
+			.addText(text => text
+				.setPlaceholder('例: 60')
+				.setValue(String(account.fetchIntervalMinutes))
+				.onChange(async (value) => {
+					const minutes = Number(value.trim() || '0');
+					if (!Number.isInteger(minutes) || minutes < 0) return;
+					account.fetchIntervalMinutes = minutes;
+					await this.plugin.saveSettings();
+
+					// 定期取得のタイマーを再設定
+					this.plugin.setupFetchTimer();
+				}))
+			.addExtraButton(button => {
+				button
+					.setIcon('info')
+					.setTooltip('現在の設定: ' + this.plugin.describeFetchSchedule(account))
+					.onClick(() => {
+						const nextFetch = this.plugin.nextFetchTimes.get(account.id);
+						new Notice(nextFetch ? `定期取得: ${this.plugin.describeFetchSchedule(account)}（次回 ${moment(nextFetch).format('YYYY-MM-DD HH:mm')}）` : '定期取得は無効です');
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('定期取得のスケジュール')
+			.setDesc('cron形式（分 時 日 月 曜日）で指定すると、定期取得間隔の代わりにこのスケジュールで取得します。例: 「0 9,18 * * 1-5」で平日の9時と18時。')
+			.addText(text => text
+				.setPlaceholder('例: 0 9 * * *')
+				.setValue(account.fetchCron)
+				.onChange(async (value) => {
+					account.fetchCron = value.trim();
+					text.inputEl.toggleClass('gyazo-input-error', account.fetchCron !== '' && !CronSchedule.parse(account.fetchCron));
+					await this.plugin.saveSettings();
+					this.plugin.setupFetchTimer();
+				}));
+
+		const filterEl = containerEl.createEl('details');
+		filterEl.createEl('summary', {text: '同期する画像の絞り込み'});
+		filterEl.createEl('p', {
+			text: '条件に一致しない画像はノートを作成・更新しません。アプリ名・ドメイン・キーワードはカンマ区切りで複数指定できます（大文字と小文字は区別しません）。'
+		});
+
+		const filter = account.syncFilter;
+		const filterTexts: {key: 'includeApps' | 'excludeApps' | 'includeDomains' | 'excludeDomains' | 'minDate' | 'includeKeywords' | 'excludeKeywords', name: string, placeholder: string}[] = [
+			{key: 'includeApps', name: '同期するアプリ', placeholder: '例: Google Chrome, Figma'},
+			{key: 'excludeApps', name: '同期しないアプリ', placeholder: '例: Slack'},
+			{key: 'includeDomains', name: '同期する参照元のドメイン', placeholder: '例: github.com'},
+			{key: 'excludeDomains', name: '同期しない参照元のドメイン', placeholder: '例: twitter.com'},
+			{key: 'minDate', name: '同期する最も古い撮影日', placeholder: '例: 2024-01-01'},
+			{key: 'includeKeywords', name: '同期するキーワード', placeholder: 'タイトルまたはOCRテキストに含まれる語'},
+			{key: 'excludeKeywords', name: '同期しないキーワード', placeholder: 'タイトルまたはOCRテキストに含まれる語'}
+		];
+		for (const {key, name, placeholder} of filterTexts) {
+			new Setting(filterEl)
+				.setName(name)
+				.addText(text => text
+					.setPlaceholder(placeholder)
+					.setValue(filter[key])
+					.onChange(async (value) => {
+						filter[key] = value.trim();
+						await this.plugin.saveSettings();
+					}));
+		}
+
+		new Setting(filterEl)
+			.setName('動画を同期しない')
+			.addToggle(toggle => toggle
+				.setValue(filter.skipVideos)
+				.onChange(async (value) => {
+					filter.skipVideos = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(filterEl)
+			.setName('GIFを同期しない')
+			.addToggle(toggle => toggle
+				.setValue(filter.skipGifs)
+				.onChange(async (value) => {
+					filter.skipGifs = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('同期しない画像')
+			.setDesc(`コマンド「現在のノートのGyazo画像を今後同期しない」で追加した画像: ${account.ignoredImageIds.length}件`)
+			.addButton(button => button
+				.setButtonText('リストを空にする')
+				.setDisabled(account.ignoredImageIds.length === 0)
+				.onClick(async () => {
+					account.ignoredImageIds = [];
+					await this.plugin.saveSettings();
+					new Notice('同期しない画像のリストを空にしました');
+					this.display();
+				}));
+
+		const cursor = account.backfillCursor;
+		new Setting(containerEl)
+			.setName('ライブラリ全体のインポート')
+			.setDesc(cursor
+				? `インポートが中断されています（${cursor.page}ページ目から再開、${cursor.processedCount}枚処理済み）。コマンド「Gyazoライブラリ全体をインポート」で再開できます。`
+				: 'コマンド「Gyazoライブラリ全体をインポート」で、すべての画像のノートを作成します。')
+			.addButton(button => button
+				.setButtonText('最初からやり直す')
+				.setDisabled(!cursor)
+				.onClick(async () => {
+					account.backfillCursor = null;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		if (accounts.length > 1) {
+			new Setting(containerEl)
+				.setName('アカウントを削除')
+				.setDesc('このアカウントの設定を削除します。ノートは削除されませんが、同じIDのアカウントを登録し直すまで、同期・削除された画像の検知・強制再取得・一括操作の対象外になります。')
+				.addButton(button => button
+					.setButtonText('削除')
+					.setWarning()
+					.onClick(async () => {
+						const clientSecret = this.plugin.getClientSecret();
+						await this.plugin.setAccessToken(account, '');
+						this.plugin.settings.accounts = accounts.filter(item => item !== account);
+						this.plugin.accountUsers.delete(account.id);
+						await this.plugin.setClientSecret(clientSecret);
+						this.plugin.clients.delete(account.id);
+						await this.plugin.saveSettings();
+						this.plugin.setupFetchTimer();
+						this.display();
+					}));
+		}
+	}
+
+	// サンプル画像でテンプレートのプレビューを更新するメソッド
+	async updateTemplatePreview() {
+		if (!this.templatePreviewEl) return;
+
+		const bodyTemplate = await this.plugin.loadBodyTemplate();
+		const filePath = this.plugin.getNoteFilePath(SAMPLE_GYAZO_IMAGE, this.plugin.settings.accounts[0]);
+		const body = this.plugin.renderTemplate(bodyTemplate, SAMPLE_GYAZO_IMAGE, null);
+		this.templatePreviewEl.setText(`${filePath}\n\n${body}`);
+	}
 }
@@ -0,0 +1,176 @@
+import { createWorker, OEM, Worker } from 'tesseract.js';
+
+// 画像のテキストを認識するOCRのプロバイダー
+export interface OcrProvider {
+	// 画像のテキストを認識するメソッド
+	recognize(data: ArrayBuffer): Promise<string>;
+	// 使用中のリソースを解放するメソッド
+	terminate(): Promise<void>;
+}
+
+// プラグインのディレクトリ内のTesseractのファイルの場所（ビルド時にnode_modulesからコピーする）
+export const TESSERACT_ASSET_DIR = 'tesseract';
+export const TESSERACT_WORKER_FILE = 'worker.min.js';
+export const TESSERACT_CORE_DIR = 'core';
+export const TESSERACT_LANG_DIR = 'lang';
+
+// Tesseractのワーカー・WASMのコア・言語データのURL
+export interface TesseractAssetPaths {
+	workerPath: string;
+	corePath: string; // コアのファイルのあるディレクトリ（SIMDの対応に応じてファイルが選ばれる）
+	langPath: string; // <言語コード>.traineddata.gzのあるディレクトリ
+}
+
+// OCRで認識する言語の設定を言語コードの一覧に変換する関数
+export function parseOcrLanguages(languages: string): string[] {
+	const codes = languages.split('+').map(language => language.trim()).filter(language => language.length > 0);
+	return codes.length > 0 ? codes : ['eng'];
+}
+
+// WASM版のTesseract（tesseract.js）を使用して端末内でOCRを実行するプロバイダー
+// ワーカー・WASMのコア・言語データはプラグインに同梱したものを読み込み、外部からはダウンロードしない
+export class TesseractOcrProvider implements OcrProvider {
+	private languages: string[];
+	private assetPaths: TesseractAssetPaths;
+	private worker: Promise<Worker> | null = null;
+
+	constructor(languages: string, assetPaths: TesseractAssetPaths) {
+		this.languages = parseOcrLanguages(languages);
+		this.assetPaths = assetPaths;
+	}
+
+	async recognize(data: ArrayBuffer): Promise<string> {
+		// 言語データの読み込みに時間がかかるため、ワーカーは初回の認識時に作成して使い回す
+		// 同梱した言語データを使用するため、IndexedDBにはキャッシュしない
+		if (!this.worker) {
+			this.worker = createWorker(this.languages, OEM.LSTM_ONLY, {
+				...this.assetPaths,
+				gzip: true,
+				cacheMethod: 'none'
+			});
+		}
+
+		const worker = await this.worker;
+		const result = await worker.recognize(new Blob([data]));
+		return result.data.text;
+	}
+
+	async terminate(): Promise<void> {
+		if (!this.worker) return;
+
+		const worker = this.worker;
+		this.worker = null;
+		try {
+			await (await worker).terminate();
+		} catch (error) {
+			console.error('OCRのワーカーの終了エラー:', error);
+		}
+	}
+}
+
+// OCRテキストの索引の項目
+export interface OcrIndexEntry {
+	text: string;
+	locale: string;
+	source: 'gyazo' | 'local'; // gyazo=GyazoのOCR、local=端末内のOCR
+	updatedAt: number;
+}
+
+// 画像のOCRテキストの全文検索用の索引
+// 言語によらず検索できるよう、空白を除いたテキストの2文字ずつの組（バイグラム）から画像IDを引く
+export class OcrIndex {
+	private entries: Record<string, OcrIndexEntry> = {};
+	private postings: Map<string, Set<string>> = new Map();
+	private searchCache: Map<string, Set<string>> = new Map();
+	dirty = false;
+
+	// 保存した索引の項目を読み込むメソッド
+	load(entries: Record<string, OcrIndexEntry>) {
+		this.entries = {};
+		this.postings.clear();
+		this.searchCache.clear();
+		for (const [imageId, entry] of Object.entries(entries)) {
+			this.set(imageId, entry);
+		}
+		this.dirty = false;
+	}
+
+	// 保存用に索引の項目を取得するメソッド
+	toJSON(): Record<string, OcrIndexEntry> {
+		return this.entries;
+	}
+
+	get(imageId: string): OcrIndexEntry | null {
+		return this.entries[imageId] || null;
+	}
+
+	// 画像のOCRテキストを登録するメソッド（同じ画像の既存の項目は置き換える）
+	set(imageId: string, entry: OcrIndexEntry) {
+		const existing = this.entries[imageId];
+		if (existing && existing.text === entry.text && existing.source === entry.source) return;
+
+		this.delete(imageId);
+		this.entries[imageId] = entry;
+		for (const gram of this.getBigrams(this.normalize(entry.text))) {
+			let imageIds = this.postings.get(gram);
+			if (!imageIds) {
+				imageIds = new Set();
+				this.postings.set(gram, imageIds);
+			}
+			imageIds.add(imageId);
+		}
+		this.searchCache.clear();
+		this.dirty = true;
+	}
+
+	// 画像のOCRテキストを索引から削除するメソッド
+	delete(imageId: string) {
+		const existing = this.entries[imageId];
+		if (!existing) return;
+
+		for (const gram of this.getBigrams(this.normalize(existing.text))) {
+			const imageIds = this.postings.get(gram);
+			if (!imageIds) continue;
+			imageIds.delete(imageId);
+			if (imageIds.size === 0) this.postings.delete(gram);
+		}
+		delete this.entries[imageId];
+		this.searchCache.clear();
+		this.dirty = true;
+	}
+
+	// 検索語をOCRテキストに含む画像のIDを取得するメソッド
+	search(word: string): Set<string> {
+		const normalizedWord = this.normalize(word);
+		const cached = this.searchCache.get(normalizedWord);
+		if (cached) return cached;
+
+		// バイグラムをすべて含む画像に絞り込んでから、テキストに検索語が含まれるかを確認
+		let candidates: string[];
+		if (normalizedWord.length < 2) {
+			candidates = Object.keys(this.entries);
+		} else {
+			const postings = this.getBigrams(normalizedWord).map(gram => this.postings.get(gram) || new Set<string>());
+			postings.sort((a, b) => a.size - b.size);
+			candidates = Array.from(postings[0]).filter(imageId => postings.every(imageIds => imageIds.has(imageId)));
+		}
+
+		const result = new Set(candidates.filter(imageId => this.normalize(this.entries[imageId].text).includes(normalizedWord)));
+		this.searchCache.set(normalizedWord, result);
+		return result;
+	}
+
+	// 検索用にテキストを正規化するメソッド（全角・半角と大文字・小文字を揃え、空白を除く）
+	private normalize(text: string): string {
+		return text.normalize('NFKC').toLowerCase().replace(/\s+/g, '');
+	}
+
+	// テキストのバイグラムを取得するメソッド
+	private getBigrams(text: string): string[] {
+		const grams = new Set<string>();
+		for (let i = 0; i < text.length - 1; i++) {
+			grams.add(text.substring(i, i + 2));
+		}
+		return Array.from(grams);
+	}
+}